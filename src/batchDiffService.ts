@@ -0,0 +1,166 @@
+import * as path from 'path';
+import { DiffOptions, DiffResult, isImagePath, Rect } from './diffEngine';
+import {
+  CancellationFlag,
+  CancelledError,
+  DiffWorkerPool,
+} from './diffWorkerPool';
+import { ChangedFile, GitService } from './gitService';
+import { IgnoreRegionService } from './ignoreRegionService';
+
+export interface BatchDiffEntry {
+  file: ChangedFile;
+  currentData: Buffer | null;
+  previousData: Buffer | null;
+  diff: DiffResult | null;
+  /** Small data URL of the diff, or of the only existing version. */
+  thumbnail: string | null;
+  /** Mismatch used for sorting; added and deleted images count as 100%. */
+  mismatchPercentage: number;
+  /**
+   * Why the versions could not be read or compared, e.g. an LFS object
+   * missing locally or an image that cannot be decoded.
+   */
+  error: string | null;
+}
+
+export interface BatchDiffReport {
+  workspaceRoot: string;
+  from: string;
+  to: string;
+  options: DiffOptions;
+  entries: BatchDiffEntry[];
+}
+
+/** Matches `vscode.Progress`, so the extension can pass its own. */
+export interface BatchProgress {
+  report(value: { message?: string; increment?: number }): void;
+}
+
+export class BatchDiffService {
+  /**
+   * Diffs every image changed between two revisions in worker threads,
+   * leaving out the ignore regions of each. Returns null when cancelled.
+   */
+  static async run(
+    workspaceRoot: string,
+    from: string,
+    to: string,
+    diffOptions: DiffOptions,
+    progress?: BatchProgress,
+    token?: CancellationFlag
+  ): Promise<BatchDiffReport | null> {
+    const files = (
+      await GitService.getChangedFiles(from, to, workspaceRoot)
+    ).filter((file) => isImagePath(file.path));
+    const entries: BatchDiffEntry[] = [];
+
+    for (const file of files) {
+      if (token && token.isCancellationRequested) return null;
+
+      progress?.report({
+        message: file.path,
+        increment: 100 / files.length,
+      });
+      try {
+        entries.push(
+          await this.compareFile(
+            workspaceRoot,
+            from,
+            to,
+            file,
+            diffOptions,
+            token
+          )
+        );
+      } catch (error) {
+        if (error instanceof CancelledError) return null;
+        throw error;
+      }
+    }
+
+    entries.sort((a, b) => b.mismatchPercentage - a.mismatchPercentage);
+    return { workspaceRoot, from, to, options: diffOptions, entries };
+  }
+
+  private static async compareFile(
+    workspaceRoot: string,
+    from: string,
+    to: string,
+    file: ChangedFile,
+    diffOptions: DiffOptions,
+    token?: CancellationFlag
+  ): Promise<BatchDiffEntry> {
+    let previousData: Buffer | null = null;
+    let currentData: Buffer | null = null;
+    let ignoreRegions: Rect[];
+    try {
+      // A malformed .imagediff.json fails each file rather than the batch.
+      ignoreRegions = IgnoreRegionService.getRegions(
+        workspaceRoot,
+        path.join(workspaceRoot, file.path)
+      );
+      [previousData, currentData] = await Promise.all([
+        file.status === 'A'
+          ? null
+          : GitService.readBlob({
+              filePath: path.join(workspaceRoot, file.oldPath),
+              revision: from,
+              workspaceRoot,
+            }),
+        file.status === 'D'
+          ? null
+          : GitService.readBlob({
+              filePath: path.join(workspaceRoot, file.path),
+              revision: to,
+              workspaceRoot,
+            }),
+      ]);
+    } catch (error) {
+      return {
+        file,
+        currentData: null,
+        previousData: null,
+        diff: null,
+        thumbnail: null,
+        mismatchPercentage: 100,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    const diff =
+      currentData && previousData
+        ? await DiffWorkerPool.run(
+            'generate',
+            [currentData, previousData, { ...diffOptions, ignoreRegions }],
+            { token }
+          )
+        : null;
+    const thumbnailSource = diff
+      ? Buffer.from(diff.diffImage.split(',')[1], 'base64')
+      : currentData || previousData;
+
+    let thumbnail: string | null = null;
+    try {
+      thumbnail = thumbnailSource
+        ? await DiffWorkerPool.run('createThumbnail', [thumbnailSource], {
+            token,
+          })
+        : null;
+    } catch (error) {
+      if (error instanceof CancelledError) throw error;
+      console.error(`Cannot create thumbnail of '${file.path}':`, error);
+    }
+
+    return {
+      file,
+      currentData,
+      previousData,
+      diff,
+      thumbnail,
+      mismatchPercentage: diff ? diff.mismatchPercentage : 100,
+      error:
+        currentData && previousData && !diff ? 'Cannot decode image' : null,
+    };
+  }
+}
@@ -0,0 +1,424 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { BatchDiffService } from './batchDiffService';
+import {
+  AlignmentMode,
+  DEFAULT_DIFF_OPTIONS,
+  DiffImageGenerator,
+  DiffMetrics,
+  DiffOptions,
+  DiffResult,
+  exceedsBudget,
+} from './diffEngine';
+import { GitService } from './gitService';
+import { IgnoreRegionService } from './ignoreRegionService';
+
+const USAGE = `Usage:
+  image-pixel-diff compare <before> <after> [options]
+  image-pixel-diff range <commit | from..to | from...to> [options]
+
+Options:
+  --threshold <0-1>          Matching threshold, smaller is more sensitive
+  --alignment <mode>         top-left, top, ..., center, ..., scale or auto
+  --include-aa               Count anti-aliased pixels as differences
+  --alpha <0-1>              Opacity of the original image in the diff
+  --aa-color <#rrggbb>       Color of anti-aliased pixels
+  --diff-color <#rrggbb>     Color of different pixels
+  --diff-color-alt <#rrggbb> Color of pixels that became darker
+  --diff-mask                Draw the diff over a transparent background
+  --budget <percent>         Mismatch allowed before exiting with code 1
+  --out <path>               Write the diff image (a directory for range)
+  --json                     Print the results as JSON
+  --config <file>            Read imageDiff.* settings from a VS Code
+                             settings file (default .vscode/settings.json)
+  -h, --help                 Show this help
+
+Areas listed in .imagediff.json at the root of the repository (or of the
+current directory outside of Git) are left out of the comparison.
+
+Exit codes: 0 within budget, 1 over budget, 2 error.`;
+
+/** Flags mapped to the diff option they set, in the order of the settings. */
+const OPTION_FLAGS: Record<string, keyof DiffOptions> = {
+  alignment: 'alignment',
+  threshold: 'threshold',
+  'include-aa': 'includeAA',
+  alpha: 'alpha',
+  'aa-color': 'aaColor',
+  'diff-color': 'diffColor',
+  'diff-color-alt': 'diffColorAlt',
+  'diff-mask': 'diffMask',
+};
+
+const BOOLEAN_FLAGS = ['include-aa', 'diff-mask', 'json', 'help'];
+
+const ALIGNMENT_MODES: AlignmentMode[] = [
+  'top-left',
+  'top',
+  'top-right',
+  'left',
+  'center',
+  'right',
+  'bottom-left',
+  'bottom',
+  'bottom-right',
+  'scale',
+  'auto',
+];
+
+/** Invalid arguments or settings, reported together with the usage. */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+interface CommandLineArgs {
+  positionals: string[];
+  flags: Map<string, string | true>;
+}
+
+interface ComparedFile {
+  previous: string;
+  current: string;
+  /** Status letter as in `git diff --name-status`; M for two plain files. */
+  status: string;
+  /** Null for added and deleted images. */
+  diff: DiffResult | null;
+}
+
+interface ComparisonSummary
+  extends Omit<
+    DiffResult,
+    'diffImage' | 'ssimImage' | 'currentOffset' | 'previousOffset' | 'metrics'
+  > {
+  /** Null for added and deleted images. */
+  metrics: DiffMetrics | null;
+  previous: string;
+  current: string;
+  status: string;
+  overBudget: boolean;
+}
+
+class CommandLine {
+  /** Runs the CLI and resolves to the process exit code. */
+  static async run(argv: string[]): Promise<number> {
+    const { positionals, flags } = this.parseArgs(argv);
+    const [command, ...args] = positionals;
+
+    if (flags.has('help') || !command) {
+      console.log(USAGE);
+      return command || flags.has('help') ? 0 : 2;
+    }
+
+    const settings = this.readSettings(flags.get('config'));
+    const options = this.getDiffOptions(settings, flags);
+    const budget = this.getNumber(
+      flags.get('budget') ?? settings['imageDiff.mismatchBudget'] ?? 0,
+      'budget',
+      0,
+      100
+    );
+    const out = flags.get('out');
+    const outPath = typeof out === 'string' ? out : undefined;
+
+    let diffs: ComparedFile[];
+    if (command === 'compare' && args.length === 2) {
+      diffs = [await this.compare(args[0], args[1], options, outPath)];
+    } else if (command === 'range' && args.length === 1) {
+      diffs = await this.compareRange(args[0], options, outPath);
+    } else {
+      console.error(USAGE);
+      return 2;
+    }
+
+    const results = diffs.map(({ previous, current, status, diff }) =>
+      this.summarize(previous, current, status, diff, budget)
+    );
+
+    if (flags.has('json')) {
+      console.log(JSON.stringify({ budget, options, results }, null, 2));
+    } else {
+      results.forEach((result) => console.log(this.formatResult(result)));
+    }
+    return results.some((result) => result.overBudget) ? 1 : 0;
+  }
+
+  private static async compare(
+    previousPath: string,
+    currentPath: string,
+    options: DiffOptions,
+    outPath?: string
+  ): Promise<ComparedFile> {
+    const root =
+      (await GitService.getRepositoryRoot(process.cwd())) || process.cwd();
+    const diff = await DiffImageGenerator.generate(
+      fs.readFileSync(currentPath),
+      fs.readFileSync(previousPath),
+      {
+        ...options,
+        ignoreRegions: IgnoreRegionService.getRegions(
+          root,
+          path.resolve(currentPath)
+        ),
+      }
+    );
+    if (!diff) {
+      throw new Error(`Cannot compare '${previousPath}' and '${currentPath}'`);
+    }
+
+    if (outPath) {
+      this.writeDiffImage(outPath, diff);
+    }
+    return { previous: previousPath, current: currentPath, status: 'M', diff };
+  }
+
+  /**
+   * Compares every image changed in a commit or range of the repository in
+   * the current directory. Added and deleted images are listed but never
+   * count against the budget.
+   */
+  private static async compareRange(
+    range: string,
+    options: DiffOptions,
+    outDir?: string
+  ): Promise<ComparedFile[]> {
+    const workspaceRoot = await GitService.getRepositoryRoot(process.cwd());
+    if (!workspaceRoot) {
+      throw new Error(`Not a Git repository: ${process.cwd()}`);
+    }
+    const { from, to } = await GitService.resolveRange(range, workspaceRoot);
+    const report = await BatchDiffService.run(workspaceRoot, from, to, options);
+
+    return (report ? report.entries : []).map(
+      ({ file, currentData, previousData, diff, error }) => {
+        if (error) {
+          throw new Error(error);
+        }
+        if (currentData && previousData && !diff) {
+          throw new Error(`Cannot compare versions of '${file.path}'`);
+        }
+        if (diff && outDir) {
+          this.writeDiffImage(path.join(outDir, `${file.path}.diff.png`), diff);
+        }
+        return {
+          previous: file.oldPath,
+          current: file.path,
+          status: diff ? file.status : currentData ? 'A' : 'D',
+          diff,
+        };
+      }
+    );
+  }
+
+  private static summarize(
+    previous: string,
+    current: string,
+    status: string,
+    diff: DiffResult | null,
+    budget: number
+  ): ComparisonSummary {
+    const empty = { width: 0, height: 0 };
+    return {
+      previous,
+      current,
+      status,
+      width: diff ? diff.width : 0,
+      height: diff ? diff.height : 0,
+      currentSize: diff ? diff.currentSize : empty,
+      previousSize: diff ? diff.previousSize : empty,
+      alignment: diff ? diff.alignment : DEFAULT_DIFF_OPTIONS.alignment,
+      mismatch: diff ? diff.mismatch : 0,
+      mismatchPercentage: diff ? diff.mismatchPercentage : 0,
+      regions: diff ? diff.regions : [],
+      metrics: diff ? diff.metrics : null,
+      overBudget: diff ? exceedsBudget(diff, budget) : false,
+    };
+  }
+
+  private static formatResult(result: ComparisonSummary): string {
+    const name =
+      result.previous === result.current
+        ? result.current
+        : `${result.previous} → ${result.current}`;
+
+    if (result.status === 'A' || result.status === 'D') {
+      return `${result.status === 'A' ? 'added' : 'deleted'}  ${name}`;
+    }
+    return `${result.overBudget ? 'FAIL' : 'ok'}  ${name}: ${
+      result.mismatch
+        ? `${result.mismatch.toLocaleString()} px changed (${result.mismatchPercentage.toFixed(
+            2
+          )}%)`
+        : 'no pixel differences'
+    }${
+      result.mismatch && result.metrics
+        ? `, SSIM ${result.metrics.ssim.toFixed(4)}`
+        : ''
+    }`;
+  }
+
+  private static writeDiffImage(filePath: string, diff: DiffResult) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(
+      filePath,
+      Buffer.from(diff.diffImage.split(',')[1], 'base64')
+    );
+  }
+
+  private static parseArgs(argv: string[]): CommandLineArgs {
+    const positionals: string[] = [];
+    const flags = new Map<string, string | true>();
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+      if (arg === '-h') {
+        flags.set('help', true);
+      } else if (arg.startsWith('--')) {
+        const [name, inline] = arg.slice(2).split(/=(.*)/s);
+        if (BOOLEAN_FLAGS.includes(name)) {
+          flags.set(name, true);
+        } else if (inline !== undefined) {
+          flags.set(name, inline);
+        } else if (i + 1 < argv.length) {
+          flags.set(name, argv[++i]);
+        } else {
+          throw new UsageError(`Missing value for --${name}`);
+        }
+      } else {
+        positionals.push(arg);
+      }
+    }
+
+    return { positionals, flags };
+  }
+
+  /**
+   * Reads a VS Code settings file, so CI runs with the same options as the
+   * extension. Comments and trailing commas are allowed, as in VS Code.
+   */
+  private static readSettings(
+    configPath: string | true | undefined
+  ): Record<string, unknown> {
+    const filePath =
+      typeof configPath === 'string'
+        ? configPath
+        : path.join('.vscode', 'settings.json');
+    if (configPath === undefined && !fs.existsSync(filePath)) {
+      return {};
+    }
+
+    const skipStrings =
+      (replacement: string) => (match: string, string?: string) =>
+        string || replacement;
+    const text = fs
+      .readFileSync(filePath, 'utf8')
+      .replace(
+        /("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+        skipStrings('')
+      )
+      .replace(/("(?:\\.|[^"\\])*")|,(?=\s*[}\]])/g, skipStrings(''));
+    return JSON.parse(text);
+  }
+
+  private static getDiffOptions(
+    settings: Record<string, unknown>,
+    flags: Map<string, string | true>
+  ): DiffOptions {
+    const get = <T>(
+      flag: string,
+      parse: (value: unknown, name: string) => T,
+      fallback: T
+    ): T => {
+      const value =
+        flags.get(flag) ?? settings[`imageDiff.${OPTION_FLAGS[flag]}`];
+      return value === undefined ? fallback : parse(value, flag);
+    };
+    const fraction = (value: unknown, name: string) =>
+      this.getNumber(value, name, 0, 1);
+    const boolean = (value: unknown, name: string) =>
+      this.getBoolean(value, name);
+    const color = (value: unknown, name: string) => this.getColor(value, name);
+
+    return {
+      ...DEFAULT_DIFF_OPTIONS,
+      alignment: get(
+        'alignment',
+        (value, name) => this.getAlignment(value, name),
+        DEFAULT_DIFF_OPTIONS.alignment
+      ),
+      threshold: get('threshold', fraction, DEFAULT_DIFF_OPTIONS.threshold),
+      includeAA: get('include-aa', boolean, DEFAULT_DIFF_OPTIONS.includeAA),
+      alpha: get('alpha', fraction, DEFAULT_DIFF_OPTIONS.alpha),
+      aaColor: get('aa-color', color, DEFAULT_DIFF_OPTIONS.aaColor),
+      diffColor: get('diff-color', color, DEFAULT_DIFF_OPTIONS.diffColor),
+      diffColorAlt: get(
+        'diff-color-alt',
+        (value, name) => (value === null ? null : color(value, name)),
+        DEFAULT_DIFF_OPTIONS.diffColorAlt
+      ),
+      diffMask: get('diff-mask', boolean, DEFAULT_DIFF_OPTIONS.diffMask),
+    };
+  }
+
+  private static getNumber(
+    value: unknown,
+    name: string,
+    min: number,
+    max: number
+  ): number {
+    const number = Number(value);
+    if (typeof value === 'boolean' || !Number.isFinite(number)) {
+      throw new UsageError(`Invalid value for --${name}: ${value}`);
+    }
+    if (number < min || number > max) {
+      throw new UsageError(
+        `Invalid value for --${name}: ${value}, expected ${min} to ${max}`
+      );
+    }
+    return number;
+  }
+
+  /** Flags are always true; settings files may also turn an option off. */
+  private static getBoolean(value: unknown, name: string): boolean {
+    if (typeof value !== 'boolean') {
+      throw new UsageError(`Invalid value for --${name}: ${value}`);
+    }
+    return value;
+  }
+
+  private static getColor(value: unknown, name: string): string {
+    if (typeof value !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(value)) {
+      throw new UsageError(
+        `Invalid value for --${name}: ${value}, expected a color such as #ff0000`
+      );
+    }
+    return value;
+  }
+
+  private static getAlignment(value: unknown, name: string): AlignmentMode {
+    if (!ALIGNMENT_MODES.includes(value as AlignmentMode)) {
+      throw new UsageError(
+        `Invalid value for --${name}: ${value}, expected one of ${ALIGNMENT_MODES.join(
+          ', '
+        )}`
+      );
+    }
+    return value as AlignmentMode;
+  }
+}
+
+CommandLine.run(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error(`image-pixel-diff: ${error.message || error}`);
+    if (error instanceof UsageError) {
+      console.error(USAGE);
+    }
+    process.exitCode = 2;
+  }
+);
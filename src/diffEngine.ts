@@ -0,0 +1,1346 @@
+import { GifWriter } from 'omggif';
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+import { DecodedImage, ImageDecoder } from './imageDecoder';
+
+export type AlignmentMode =
+  | 'top-left'
+  | 'top'
+  | 'top-right'
+  | 'left'
+  | 'center'
+  | 'right'
+  | 'bottom-left'
+  | 'bottom'
+  | 'bottom-right'
+  | 'scale'
+  | 'auto';
+
+export interface DiffOptions {
+  alignment: AlignmentMode;
+  threshold: number;
+  includeAA: boolean;
+  alpha: number;
+  aaColor: string;
+  diffColor: string;
+  diffColorAlt: string | null;
+  diffMask: boolean;
+  /**
+   * Areas left out of the comparison, in pixels of the diff canvas, which is
+   * the current version itself unless the versions differ in size.
+   */
+  ignoreRegions: Rect[];
+}
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DiffRegion extends Rect {
+  pixels: number;
+}
+
+/** Measures of similarity that tell small noise apart from real changes. */
+export interface DiffMetrics {
+  /** Mean structural similarity of 8×8 luma windows, 1 when identical. */
+  ssim: number;
+  /** Peak signal-to-noise ratio in dB, null when the images are identical. */
+  psnr: number | null;
+  /** Mean absolute difference of each channel, from 0 to 255. */
+  mae: Rgba;
+  /** Differing bits of the 64-bit perceptual hashes of both versions. */
+  hashDistance: number;
+}
+
+export interface DiffResult {
+  diffImage: string;
+  /** Dissimilarity of each SSIM window, transparent where identical. */
+  ssimImage: string;
+  width: number;
+  height: number;
+  currentSize: ImageSize;
+  previousSize: ImageSize;
+  alignment: AlignmentMode;
+  /** Position of each version on the diff canvas. */
+  currentOffset: Point;
+  previousOffset: Point;
+  mismatch: number;
+  mismatchPercentage: number;
+  regions: DiffRegion[];
+  metrics: DiffMetrics;
+}
+
+export interface AlignedImages {
+  width: number;
+  height: number;
+  /** RGBA pixels of each version on the diff canvas. */
+  current: Uint8Array;
+  previous: Uint8Array;
+}
+
+/** A band of rows of the diff image, reported as soon as it is diffed. */
+export interface DiffTile {
+  y: number;
+  width: number;
+  height: number;
+  /** Height of the whole diff image. */
+  canvasHeight: number;
+  /** RGBA pixels of the band. */
+  data: Uint8Array;
+  /** Fraction of the diff image done, including this band. */
+  progress: number;
+}
+
+export type Rgba = [number, number, number, number];
+
+export interface PixelInspection {
+  x: number;
+  y: number;
+  current: Rgba;
+  previous: Rgba;
+  /** Per-channel difference, current minus previous. */
+  delta: Rgba;
+  /** YIQ color distance as used by pixelmatch, scaled to the 0-1 threshold range. */
+  distance: number;
+  /** RGBA pixels of the square neighborhood centered on the inspected pixel. */
+  loupe: {
+    size: number;
+    current: number[];
+    previous: number[];
+  };
+}
+
+export interface AnimationFrameDiff {
+  index: number;
+  currentImage: string | null;
+  previousImage: string | null;
+  diffImage: string | null;
+  mismatch: number | null;
+  currentDelay: number | null;
+  previousDelay: number | null;
+}
+
+export interface AnimationDiff {
+  currentFrameCount: number;
+  previousFrameCount: number;
+  frames: AnimationFrameDiff[];
+}
+
+export const DEFAULT_DIFF_OPTIONS: DiffOptions = {
+  alignment: 'top-left',
+  threshold: 0.1,
+  includeAA: false,
+  alpha: 0.1,
+  aaColor: '#ffff00',
+  diffColor: '#ff0000',
+  diffColorAlt: null,
+  diffMask: false,
+  ignoreRegions: [],
+};
+
+export function isImagePath(filePath: string): boolean {
+  return /\.(png|jpg|jpeg|gif|bmp|webp)$/i.test(filePath);
+}
+
+/**
+ * Whether a diff changes more of the image than the allowed budget, given as
+ * a percentage of the compared pixels.
+ */
+export function exceedsBudget(diff: DiffResult, budget: number): boolean {
+  return diff.mismatchPercentage > budget;
+}
+
+export class DiffImageGenerator {
+  private static readonly REGION_CELL_SIZE = 8;
+  private static readonly MAX_REGIONS = 50;
+  private static readonly AUTO_ALIGN_MARGIN = 8;
+  private static readonly LOUPE_RADIUS = 5;
+  private static readonly SSIM_WINDOW = 8;
+  /** Side of the downscaled image the perceptual hash is computed on. */
+  private static readonly HASH_SIZE = 32;
+  /** Largest possible value of pixelmatch's YIQ color delta. */
+  private static readonly MAX_COLOR_DELTA = 35215;
+  /** Rows diffed at a time, so that large images report progress. */
+  private static readonly TILE_ROWS = 256;
+  /**
+   * Rows around a pixel that pixelmatch reads to detect anti-aliasing: its
+   * neighbours and theirs. With them, a tile classifies its own rows exactly
+   * as a diff of the whole image would.
+   */
+  private static readonly TILE_CONTEXT = 2;
+  /**
+   * Colors pixelmatch draws with while diffing a tile. Being neither gray nor
+   * equal to each other, they cannot be mistaken for unchanged pixels.
+   */
+  private static readonly MARKER_COLORS: Record<
+    'aa' | 'diff' | 'diffAlt',
+    [number, number, number]
+  > = {
+    aa: [255, 0, 255],
+    diff: [255, 0, 0],
+    diffAlt: [0, 0, 255],
+  };
+
+  /**
+   * Diffs two images. `onTile` is called with each band of the diff image as
+   * soon as it is done, before the result is encoded.
+   */
+  static async generate(
+    currentData: Buffer,
+    previousData: Buffer,
+    options: DiffOptions = DEFAULT_DIFF_OPTIONS,
+    onTile?: (tile: DiffTile) => void
+  ): Promise<DiffResult | null> {
+    try {
+      const [currentImage, previousImage] = await Promise.all([
+        ImageDecoder.decode(currentData),
+        ImageDecoder.decode(previousData),
+      ]);
+
+      const {
+        diffImg,
+        mismatch,
+        mismatched,
+        compared,
+        ignored,
+        currentImg,
+        previousImg,
+        currentOffset,
+        previousOffset,
+      } = this.compare(currentImage, previousImage, options, onTile);
+      const { width, height } = diffImg;
+      const { metrics, ssimImg } = this.measure(
+        currentImg,
+        previousImg,
+        ignored
+      );
+
+      return {
+        diffImage: this.toDataUrl(diffImg),
+        ssimImage: this.toDataUrl(ssimImg),
+        width,
+        height,
+        currentSize: { width: currentImage.width, height: currentImage.height },
+        previousSize: {
+          width: previousImage.width,
+          height: previousImage.height,
+        },
+        alignment: options.alignment,
+        currentOffset,
+        previousOffset,
+        mismatch,
+        mismatchPercentage: compared ? (mismatch / compared) * 100 : 0,
+        regions: mismatch ? this.findRegions(mismatched, width, height) : [],
+        metrics,
+      };
+    } catch (error) {
+      console.error('Failed to generate diff image:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Diffs two animated images frame by frame. Returns null when neither
+   * version has more than one frame.
+   */
+  static async generateAnimation(
+    currentData: Buffer,
+    previousData: Buffer,
+    options: DiffOptions = DEFAULT_DIFF_OPTIONS
+  ): Promise<AnimationDiff | null> {
+    try {
+      const [current, previous] = await Promise.all([
+        ImageDecoder.decodeFrames(currentData),
+        ImageDecoder.decodeFrames(previousData),
+      ]);
+
+      if (current.frames.length <= 1 && previous.frames.length <= 1) {
+        return null;
+      }
+
+      const frameCount = Math.max(
+        current.frames.length,
+        previous.frames.length
+      );
+      const frames: AnimationFrameDiff[] = [];
+
+      for (let index = 0; index < frameCount; index++) {
+        const currentFrame = current.frames[index];
+        const previousFrame = previous.frames[index];
+        const frame: AnimationFrameDiff = {
+          index,
+          currentImage: currentFrame
+            ? this.toDataUrl(this.toPng(currentFrame))
+            : null,
+          previousImage: previousFrame
+            ? this.toDataUrl(this.toPng(previousFrame))
+            : null,
+          diffImage: null,
+          mismatch: null,
+          currentDelay: currentFrame ? currentFrame.delay : null,
+          previousDelay: previousFrame ? previousFrame.delay : null,
+        };
+
+        if (currentFrame && previousFrame) {
+          const { diffImg, mismatch } = this.compare(
+            currentFrame,
+            previousFrame,
+            options
+          );
+          frame.diffImage = this.toDataUrl(diffImg);
+          frame.mismatch = mismatch;
+        }
+
+        frames.push(frame);
+      }
+
+      return {
+        currentFrameCount: current.frames.length,
+        previousFrameCount: previous.frames.length,
+        frames,
+      };
+    } catch (error) {
+      console.error('Failed to generate animation diff:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Decodes one frame of both versions and places them on the diff canvas the
+   * same way `generate` does. Returns null when the frame only exists in one
+   * version.
+   */
+  static async alignFrame(
+    currentData: Buffer,
+    previousData: Buffer,
+    options: DiffOptions,
+    frameIndex = 0
+  ): Promise<AlignedImages | null> {
+    try {
+      const [current, previous] = await Promise.all([
+        this.decodeFrame(currentData, frameIndex),
+        this.decodeFrame(previousData, frameIndex),
+      ]);
+      if (!current || !previous) {
+        return null;
+      }
+
+      const { width, height, currentImg, previousImg } = this.place(
+        current,
+        previous,
+        options.alignment
+      );
+      return {
+        width,
+        height,
+        current: currentImg.data,
+        previous: previousImg.data,
+      };
+    } catch (error) {
+      console.error('Failed to align images:', error);
+      return null;
+    }
+  }
+
+  static inspectPixel(
+    images: AlignedImages,
+    x: number,
+    y: number
+  ): PixelInspection | null {
+    const { width, height } = images;
+    if (x < 0 || y < 0 || x >= width || y >= height) {
+      return null;
+    }
+
+    const pos = (y * width + x) * 4;
+    const current = this.readPixel(images.current, pos);
+    const previous = this.readPixel(images.previous, pos);
+    const delta = current.map((value, i) => value - previous[i]) as Rgba;
+    const colorDelta = this.colorDelta(current, previous);
+
+    const radius = this.LOUPE_RADIUS;
+    const size = radius * 2 + 1;
+    const loupe = { size, current: [] as number[], previous: [] as number[] };
+    for (let ly = y - radius; ly <= y + radius; ly++) {
+      for (let lx = x - radius; lx <= x + radius; lx++) {
+        const inside = lx >= 0 && ly >= 0 && lx < width && ly < height;
+        const offset = (ly * width + lx) * 4;
+        loupe.current.push(
+          ...(inside ? this.readPixel(images.current, offset) : [0, 0, 0, 0])
+        );
+        loupe.previous.push(
+          ...(inside ? this.readPixel(images.previous, offset) : [0, 0, 0, 0])
+        );
+      }
+    }
+
+    return {
+      x,
+      y,
+      current,
+      previous,
+      delta,
+      distance: Math.sqrt(Math.abs(colorDelta) / this.MAX_COLOR_DELTA),
+      loupe,
+    };
+  }
+
+  /**
+   * Renders the previous version, the current version and the diff next to
+   * each other as a single PNG.
+   */
+  static async createComposite(
+    currentData: Buffer,
+    previousData: Buffer,
+    options: DiffOptions = DEFAULT_DIFF_OPTIONS
+  ): Promise<Buffer> {
+    const [current, previous] = await Promise.all([
+      ImageDecoder.decode(currentData),
+      ImageDecoder.decode(previousData),
+    ]);
+    const { diffImg, currentImg, previousImg } = this.compare(
+      current,
+      previous,
+      options
+    );
+    const { width, height } = diffImg;
+    const gap = 8;
+    const composite = new PNG({ width: width * 3 + gap * 2, height });
+
+    [previousImg, currentImg, diffImg].forEach((image, i) => {
+      PNG.bitblt(image, composite, 0, 0, width, height, i * (width + gap), 0);
+    });
+    return PNG.sync.write(composite);
+  }
+
+  /** Encodes a looping GIF that alternates between both aligned versions. */
+  static async createBeforeAfterGif(
+    currentData: Buffer,
+    previousData: Buffer,
+    options: DiffOptions = DEFAULT_DIFF_OPTIONS,
+    delay = 800
+  ): Promise<Buffer> {
+    const [current, previous] = await Promise.all([
+      ImageDecoder.decode(currentData),
+      ImageDecoder.decode(previousData),
+    ]);
+    const { width, height, currentImg, previousImg } = this.place(
+      current,
+      previous,
+      options.alignment
+    );
+    const { palette, transparent, frames } = this.toIndexedFrames([
+      previousImg,
+      currentImg,
+    ]);
+
+    const output = Buffer.alloc(width * height * frames.length * 2 + 4096);
+    const writer = new GifWriter(output, width, height, { loop: 0, palette });
+    for (const pixels of frames) {
+      writer.addFrame(0, 0, width, height, pixels, {
+        delay: Math.round(delay / 10),
+        disposal: 2,
+        transparent,
+      });
+    }
+    return output.subarray(0, writer.end());
+  }
+
+  /**
+   * Maps frames onto a shared GIF palette. Frames with at most 255 distinct
+   * colors keep them exactly, others are reduced to a 6×6×6 color cube.
+   * Pixels that are mostly transparent use the last palette entry.
+   */
+  private static toIndexedFrames(images: PNG[]): {
+    palette: number[];
+    transparent: number;
+    frames: number[][];
+  } {
+    const colors = new Map<number, number>();
+    let exact = true;
+
+    for (const image of images) {
+      for (let i = 0; i < image.data.length && exact; i += 4) {
+        if (image.data[i + 3] < 128) continue;
+        const color =
+          (image.data[i] << 16) | (image.data[i + 1] << 8) | image.data[i + 2];
+        if (!colors.has(color)) {
+          exact = colors.size < 255;
+          colors.set(color, colors.size);
+        }
+      }
+    }
+
+    const palette = exact
+      ? [...colors.keys()]
+      : Array.from({ length: 216 }, (_, i) => {
+          const [r, g, b] = [Math.floor(i / 36), Math.floor(i / 6) % 6, i % 6];
+          return ((r * 51) << 16) | ((g * 51) << 8) | (b * 51);
+        });
+    const transparent = palette.length;
+    let size = 2;
+    while (size <= transparent) size *= 2;
+    while (palette.length < size) palette.push(0);
+
+    const frames = images.map((image) => {
+      const pixels: number[] = new Array(image.width * image.height);
+      for (let i = 0, p = 0; i < image.data.length; i += 4, p++) {
+        const [r, g, b, a] = [
+          image.data[i],
+          image.data[i + 1],
+          image.data[i + 2],
+          image.data[i + 3],
+        ];
+        if (a < 128) {
+          pixels[p] = transparent;
+        } else if (exact) {
+          pixels[p] = colors.get((r << 16) | (g << 8) | b) as number;
+        } else {
+          pixels[p] =
+            Math.round(r / 51) * 36 +
+            Math.round(g / 51) * 6 +
+            Math.round(b / 51);
+        }
+      }
+      return pixels;
+    });
+
+    return { palette, transparent, frames };
+  }
+
+  /** Scales an image down to fit within `maxSize` and encodes it as PNG. */
+  static async createThumbnail(data: Buffer, maxSize = 160): Promise<string> {
+    const image = await ImageDecoder.decode(data);
+    const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+    const thumbnail =
+      scale < 1
+        ? this.resize(
+            image,
+            Math.max(1, Math.round(image.width * scale)),
+            Math.max(1, Math.round(image.height * scale))
+          )
+        : image;
+    return this.toDataUrl(this.toPng(thumbnail));
+  }
+
+  private static async decodeFrame(
+    data: Buffer,
+    frameIndex: number
+  ): Promise<DecodedImage | null> {
+    if (frameIndex === 0) {
+      return ImageDecoder.decode(data);
+    }
+    const animation = await ImageDecoder.decodeFrames(data);
+    return animation.frames[frameIndex] || null;
+  }
+
+  private static readPixel(data: Uint8Array, pos: number): Rgba {
+    return [data[pos], data[pos + 1], data[pos + 2], data[pos + 3]];
+  }
+
+  /**
+   * Mirrors pixelmatch's color delta, including blending semi-transparent
+   * pixels against white as `compareTile` has it do.
+   */
+  private static colorDelta(current: Rgba, previous: Rgba): number {
+    const [r1, g1, b1, a1] = current;
+    const [r2, g2, b2, a2] = previous;
+
+    let dr = r1 - r2;
+    let dg = g1 - g2;
+    let db = b1 - b2;
+    const da = a1 - a2;
+
+    if (a1 < 255 || a2 < 255) {
+      dr = (r1 * a1 - r2 * a2 - 255 * da) / 255;
+      dg = (g1 * a1 - g2 * a2 - 255 * da) / 255;
+      db = (b1 * a1 - b2 * a2 - 255 * da) / 255;
+    }
+
+    const y = dr * 0.29889531 + dg * 0.58662247 + db * 0.11448223;
+    const i = dr * 0.59597799 - dg * 0.2741761 - db * 0.32180189;
+    const q = dr * 0.21147017 - dg * 0.52261711 + db * 0.31114694;
+
+    return 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+  }
+
+  private static compare(
+    current: DecodedImage,
+    previous: DecodedImage,
+    options: DiffOptions,
+    onTile?: (tile: DiffTile) => void
+  ): {
+    diffImg: PNG;
+    mismatch: number;
+    /** 1 for each pixel counted in `mismatch`. */
+    mismatched: Uint8Array;
+    /** Pixels outside of the ignore regions. */
+    compared: number;
+    /** 1 for each pixel inside an ignore region. */
+    ignored: Uint8Array;
+    currentImg: PNG;
+    previousImg: PNG;
+    currentOffset: Point;
+    previousOffset: Point;
+  } {
+    const {
+      width,
+      height,
+      currentImg,
+      previousImg,
+      currentOffset,
+      previousOffset,
+    } = this.place(current, previous, options.alignment);
+    const ignored = this.ignoreRegions(
+      currentImg,
+      previousImg,
+      options.ignoreRegions
+    );
+    const diffImg = new PNG({ width, height });
+    const mismatched = new Uint8Array(width * height);
+    let mismatch = 0;
+
+    for (let top = 0; top < height; top += this.TILE_ROWS) {
+      const bottom = Math.min(top + this.TILE_ROWS, height);
+      mismatch += this.compareTile(
+        currentImg,
+        previousImg,
+        diffImg,
+        mismatched,
+        top,
+        bottom,
+        options
+      );
+      onTile?.({
+        y: top,
+        width,
+        height: bottom - top,
+        canvasHeight: height,
+        data: new Uint8Array(
+          diffImg.data.subarray(top * width * 4, bottom * width * 4)
+        ),
+        progress: bottom / height,
+      });
+    }
+
+    return {
+      diffImg,
+      mismatch,
+      mismatched,
+      compared: width * height - ignored.reduce((sum, value) => sum + value, 0),
+      ignored,
+      currentImg,
+      previousImg,
+      currentOffset,
+      previousOffset,
+    };
+  }
+
+  /**
+   * Diffs the rows from `top` to `bottom` into `diffImg`, marks the different
+   * pixels among them in `mismatched` and returns their number. The rows
+   * pixelmatch needs for anti-aliasing detection are diffed along, and it
+   * draws in marker colors so that the differences of the tile itself can be
+   * counted before they are recolored. Semi-transparent pixels are blended
+   * against white rather than pixelmatch's checkerboard, whose pattern
+   * follows the offset within the tile, so tiles add up to the same result
+   * as one diff of the whole image.
+   */
+  private static compareTile(
+    currentImg: PNG,
+    previousImg: PNG,
+    diffImg: PNG,
+    mismatched: Uint8Array,
+    top: number,
+    bottom: number,
+    options: DiffOptions
+  ): number {
+    const { width, height } = diffImg;
+    const start = Math.max(0, top - this.TILE_CONTEXT);
+    const end = Math.min(height, bottom + this.TILE_CONTEXT);
+    const [from, to] = [start * width * 4, end * width * 4];
+    const output = Buffer.alloc(to - from);
+
+    pixelmatch(
+      currentImg.data.subarray(from, to),
+      previousImg.data.subarray(from, to),
+      output,
+      width,
+      end - start,
+      {
+        threshold: options.threshold,
+        includeAA: options.includeAA,
+        alpha: options.alpha,
+        aaColor: this.MARKER_COLORS.aa,
+        diffColor: this.MARKER_COLORS.diff,
+        diffColorAlt: options.diffColorAlt
+          ? this.MARKER_COLORS.diffAlt
+          : undefined,
+        diffMask: options.diffMask,
+        checkerboard: false,
+      }
+    );
+
+    const colors = {
+      aa: this.parseColor(options.aaColor),
+      diff: this.parseColor(options.diffColor),
+      diffAlt: this.parseColor(options.diffColorAlt || options.diffColor),
+    };
+    const markers = Object.entries(this.MARKER_COLORS) as [
+      keyof typeof colors,
+      [number, number, number]
+    ][];
+    const offset = (top - start) * width * 4;
+    const size = (bottom - top) * width * 4;
+    let mismatch = 0;
+
+    output.copy(diffImg.data, top * width * 4, offset, offset + size);
+    for (let pos = offset; pos < offset + size; pos += 4) {
+      const r = output[pos];
+      const g = output[pos + 1];
+      const b = output[pos + 2];
+      if (output[pos + 3] !== 255 || (r === g && g === b)) continue;
+
+      const marker = markers.find(
+        ([, color]) => color[0] === r && color[1] === g && color[2] === b
+      );
+      if (!marker) continue;
+
+      const [name] = marker;
+      const index = top * width * 4 + pos - offset;
+      diffImg.data.set([...colors[name], 255], index);
+      if (name !== 'aa') {
+        mismatched[index / 4] = 1;
+        mismatch++;
+      }
+    }
+
+    return mismatch;
+  }
+
+  /**
+   * Copies the previous version into the current one inside the ignore
+   * regions, so that pixelmatch finds nothing there, and returns the pixels
+   * they cover.
+   */
+  private static ignoreRegions(
+    currentImg: PNG,
+    previousImg: PNG,
+    regions: Rect[] = []
+  ): Uint8Array {
+    const { width, height } = currentImg;
+    const ignored = new Uint8Array(width * height);
+
+    for (const region of regions) {
+      const left = Math.max(0, Math.floor(region.x));
+      const top = Math.max(0, Math.floor(region.y));
+      const right = Math.min(width, Math.ceil(region.x + region.width));
+      const bottom = Math.min(height, Math.ceil(region.y + region.height));
+      if (left >= right) continue;
+
+      for (let y = top; y < bottom; y++) {
+        const [from, to] = [y * width + left, y * width + right];
+        previousImg.data.copy(currentImg.data, from * 4, from * 4, to * 4);
+        ignored.fill(1, from, to);
+      }
+    }
+
+    return ignored;
+  }
+
+  /**
+   * Computes the metrics of two aligned images outside of the ignore regions,
+   * along with a heatmap of the SSIM windows. Colors are blended against
+   * white first, as pixelmatch does.
+   */
+  private static measure(
+    currentImg: PNG,
+    previousImg: PNG,
+    ignored: Uint8Array
+  ): { metrics: DiffMetrics; ssimImg: PNG } {
+    const { width, height } = currentImg;
+    const current = currentImg.data;
+    const previous = previousImg.data;
+    const blend = (data: Buffer, pos: number, channel: number) =>
+      channel === 3
+        ? data[pos + 3]
+        : 255 + ((data[pos + channel] - 255) * data[pos + 3]) / 255;
+    const absolute: Rgba = [0, 0, 0, 0];
+    let squared = 0;
+    let compared = 0;
+
+    for (let index = 0; index < width * height; index++) {
+      if (ignored[index]) continue;
+
+      const pos = index * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        const delta =
+          blend(current, pos, channel) - blend(previous, pos, channel);
+        absolute[channel] += Math.abs(delta);
+        if (channel < 3) squared += delta * delta;
+      }
+      compared++;
+    }
+
+    const ssimImg = new PNG({ width, height });
+    const size = this.SSIM_WINDOW;
+    // Stabilizing constants of the SSIM paper, for 8-bit values.
+    const c1 = (0.01 * 255) ** 2;
+    const c2 = (0.03 * 255) ** 2;
+    let ssimTotal = 0;
+    let windows = 0;
+
+    for (let top = 0; top < height; top += size) {
+      for (let left = 0; left < width; left += size) {
+        const bottom = Math.min(top + size, height);
+        const right = Math.min(left + size, width);
+        let [n, sumA, sumB, sumAA, sumBB, sumAB] = [0, 0, 0, 0, 0, 0];
+
+        for (let y = top; y < bottom; y++) {
+          for (let x = left; x < right; x++) {
+            const index = y * width + x;
+            if (ignored[index]) continue;
+
+            const a = this.luma(current, index * 4);
+            const b = this.luma(previous, index * 4);
+            n++;
+            sumA += a;
+            sumB += b;
+            sumAA += a * a;
+            sumBB += b * b;
+            sumAB += a * b;
+          }
+        }
+        if (!n) continue;
+
+        const meanA = sumA / n;
+        const meanB = sumB / n;
+        const varianceA = sumAA / n - meanA * meanA;
+        const varianceB = sumBB / n - meanB * meanB;
+        const covariance = sumAB / n - meanA * meanB;
+        const ssim =
+          ((2 * meanA * meanB + c1) * (2 * covariance + c2)) /
+          ((meanA * meanA + meanB * meanB + c1) * (varianceA + varianceB + c2));
+        ssimTotal += ssim;
+        windows++;
+
+        const dissimilarity = Math.min(1, Math.max(0, 1 - ssim));
+        if (!dissimilarity) continue;
+
+        // From translucent yellow for slight changes to opaque red.
+        const color = [
+          255,
+          Math.round(255 * (1 - dissimilarity)),
+          0,
+          Math.round(255 * Math.sqrt(dissimilarity)),
+        ];
+        for (let y = top; y < bottom; y++) {
+          for (let x = left; x < right; x++) {
+            if (!ignored[y * width + x]) {
+              ssimImg.data.set(color, (y * width + x) * 4);
+            }
+          }
+        }
+      }
+    }
+
+    const [currentHash, previousHash] = [currentImg, previousImg].map((image) =>
+      this.perceptualHash(image)
+    );
+    const mse = compared ? squared / (compared * 3) : 0;
+
+    return {
+      metrics: {
+        ssim: windows ? ssimTotal / windows : 1,
+        psnr: mse ? 10 * Math.log10((255 * 255) / mse) : null,
+        mae: absolute.map((sum) => (compared ? sum / compared : 0)) as Rgba,
+        hashDistance: currentHash.filter(
+          (bit, index) => bit !== previousHash[index]
+        ).length,
+      },
+      ssimImg,
+    };
+  }
+
+  /**
+   * Hashes the lowest frequencies of the discrete cosine transform of an
+   * image shrunk to 32×32, one bit per coefficient above their median. Such
+   * hashes barely change with compression noise or small shifts.
+   */
+  private static perceptualHash(image: DecodedImage): boolean[] {
+    const size = this.HASH_SIZE;
+    const frequencies = 8;
+    const pixels = new Float64Array(size * size);
+
+    for (let cellY = 0; cellY < size; cellY++) {
+      const top = Math.floor((cellY * image.height) / size);
+      const bottom = Math.max(
+        top + 1,
+        Math.floor(((cellY + 1) * image.height) / size)
+      );
+      for (let cellX = 0; cellX < size; cellX++) {
+        const left = Math.floor((cellX * image.width) / size);
+        const right = Math.max(
+          left + 1,
+          Math.floor(((cellX + 1) * image.width) / size)
+        );
+        let sum = 0;
+        for (let y = top; y < bottom; y++) {
+          for (let x = left; x < right; x++) {
+            sum += this.luma(image.data, (y * image.width + x) * 4);
+          }
+        }
+        pixels[cellY * size + cellX] = sum / ((bottom - top) * (right - left));
+      }
+    }
+
+    const cosines = Array.from({ length: frequencies }, (_, u) =>
+      Array.from({ length: size }, (_, x) =>
+        Math.cos(((2 * x + 1) * u * Math.PI) / (2 * size))
+      )
+    );
+    const coefficients: number[] = [];
+    for (let v = 0; v < frequencies; v++) {
+      for (let u = 0; u < frequencies; u++) {
+        let sum = 0;
+        for (let y = 0; y < size; y++) {
+          for (let x = 0; x < size; x++) {
+            sum += pixels[y * size + x] * cosines[u][x] * cosines[v][y];
+          }
+        }
+        coefficients.push(sum);
+      }
+    }
+
+    // The first coefficient is the average brightness and would skew the
+    // median.
+    const sorted = coefficients.slice(1).sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    return coefficients.map((coefficient) => coefficient > median);
+  }
+
+  /** Draws both versions onto a shared canvas at their aligned offsets. */
+  private static place(
+    current: DecodedImage,
+    previous: DecodedImage,
+    alignment: AlignmentMode
+  ): {
+    width: number;
+    height: number;
+    currentImg: PNG;
+    previousImg: PNG;
+    currentOffset: Point;
+    previousOffset: Point;
+  } {
+    const { width, height, currentOffset, previousOffset, previousSource } =
+      this.align(current, previous, alignment);
+
+    const currentPng = this.toPng(current);
+    const previousPng = this.toPng(previousSource);
+
+    const currentImg = new PNG({ width, height });
+    const previousImg = new PNG({ width, height });
+
+    PNG.bitblt(
+      currentPng,
+      currentImg,
+      0,
+      0,
+      currentPng.width,
+      currentPng.height,
+      currentOffset.x,
+      currentOffset.y
+    );
+    PNG.bitblt(
+      previousPng,
+      previousImg,
+      0,
+      0,
+      previousPng.width,
+      previousPng.height,
+      previousOffset.x,
+      previousOffset.y
+    );
+
+    return {
+      width,
+      height,
+      currentImg,
+      previousImg,
+      currentOffset,
+      previousOffset,
+    };
+  }
+
+  /**
+   * Places both versions on a shared canvas. Anchor modes pin the smaller
+   * image to an edge or corner, `scale` resizes the previous version to the
+   * current dimensions and `auto` searches for the offset with the smallest
+   * difference.
+   */
+  private static align(
+    current: DecodedImage,
+    previous: DecodedImage,
+    alignment: AlignmentMode
+  ): {
+    width: number;
+    height: number;
+    currentOffset: Point;
+    previousOffset: Point;
+    previousSource: DecodedImage;
+  } {
+    if (alignment === 'scale') {
+      return {
+        width: current.width,
+        height: current.height,
+        currentOffset: { x: 0, y: 0 },
+        previousOffset: { x: 0, y: 0 },
+        previousSource:
+          current.width === previous.width && current.height === previous.height
+            ? previous
+            : this.resize(previous, current.width, current.height),
+      };
+    }
+
+    if (alignment === 'auto') {
+      const shift = this.findBestOffset(current, previous);
+      const currentOffset = {
+        x: Math.max(0, -shift.x),
+        y: Math.max(0, -shift.y),
+      };
+      return {
+        width:
+          Math.max(current.width, shift.x + previous.width) + currentOffset.x,
+        height:
+          Math.max(current.height, shift.y + previous.height) + currentOffset.y,
+        currentOffset,
+        previousOffset: {
+          x: shift.x + currentOffset.x,
+          y: shift.y + currentOffset.y,
+        },
+        previousSource: previous,
+      };
+    }
+
+    const width = Math.max(current.width, previous.width);
+    const height = Math.max(current.height, previous.height);
+    const horizontal = alignment.endsWith('left')
+      ? 0
+      : alignment.endsWith('right')
+      ? 1
+      : 0.5;
+    const vertical = alignment.startsWith('top')
+      ? 0
+      : alignment.startsWith('bottom')
+      ? 1
+      : 0.5;
+    const place = (image: DecodedImage): Point => ({
+      x: Math.floor((width - image.width) * horizontal),
+      y: Math.floor((height - image.height) * vertical),
+    });
+
+    return {
+      width,
+      height,
+      currentOffset: place(current),
+      previousOffset: place(previous),
+      previousSource: previous,
+    };
+  }
+
+  /**
+   * Finds the offset of the previous version relative to the current one that
+   * minimizes the mean squared luma difference over the overlapping area. The
+   * search is coarse-to-fine and samples pixels on a sparse grid.
+   */
+  private static findBestOffset(
+    current: DecodedImage,
+    previous: DecodedImage
+  ): Point {
+    const margin = this.AUTO_ALIGN_MARGIN;
+    const minX = Math.min(0, current.width - previous.width) - margin;
+    const maxX = Math.max(0, current.width - previous.width) + margin;
+    const minY = Math.min(0, current.height - previous.height) - margin;
+    const maxY = Math.max(0, current.height - previous.height) + margin;
+
+    const sampleStep = Math.max(
+      1,
+      Math.floor(Math.sqrt((current.width * current.height) / 65536))
+    );
+    const cost = (dx: number, dy: number) =>
+      this.offsetCost(current, previous, dx, dy, sampleStep);
+
+    let best: Point = { x: 0, y: 0 };
+    let bestCost = cost(0, 0);
+    let step = Math.max(1, Math.ceil(Math.max(maxX - minX, maxY - minY) / 32));
+    let range = { minX, maxX, minY, maxY };
+
+    for (;;) {
+      for (let dy = range.minY; dy <= range.maxY; dy += step) {
+        for (let dx = range.minX; dx <= range.maxX; dx += step) {
+          const value = cost(dx, dy);
+          if (value < bestCost) {
+            bestCost = value;
+            best = { x: dx, y: dy };
+          }
+        }
+      }
+
+      if (step === 1) break;
+
+      range = {
+        minX: Math.max(minX, best.x - step),
+        maxX: Math.min(maxX, best.x + step),
+        minY: Math.max(minY, best.y - step),
+        maxY: Math.min(maxY, best.y + step),
+      };
+      step = Math.max(1, Math.floor(step / 4));
+    }
+
+    return best;
+  }
+
+  private static offsetCost(
+    current: DecodedImage,
+    previous: DecodedImage,
+    dx: number,
+    dy: number,
+    sampleStep: number
+  ): number {
+    const left = Math.max(0, dx);
+    const top = Math.max(0, dy);
+    const right = Math.min(current.width, dx + previous.width);
+    const bottom = Math.min(current.height, dy + previous.height);
+
+    // Require a meaningful overlap so that tiny overlaps don't win by chance.
+    const overlap = (right - left) * (bottom - top);
+    if (
+      right <= left ||
+      bottom <= top ||
+      overlap <
+        (Math.min(current.width, previous.width) *
+          Math.min(current.height, previous.height)) /
+          4
+    ) {
+      return Infinity;
+    }
+
+    let total = 0;
+    let samples = 0;
+    for (let y = top; y < bottom; y += sampleStep) {
+      for (let x = left; x < right; x += sampleStep) {
+        const a = (y * current.width + x) * 4;
+        const b = ((y - dy) * previous.width + (x - dx)) * 4;
+        const delta = this.luma(current.data, a) - this.luma(previous.data, b);
+        total += delta * delta;
+        samples++;
+      }
+    }
+
+    return samples ? total / samples : Infinity;
+  }
+
+  private static luma(data: Buffer, index: number): number {
+    const alpha = data[index + 3] / 255;
+    // Blend against white so transparent pixels compare like pixelmatch does.
+    return (
+      255 +
+      (data[index] * 0.299 +
+        data[index + 1] * 0.587 +
+        data[index + 2] * 0.114 -
+        255) *
+        alpha
+    );
+  }
+
+  private static resize(
+    image: DecodedImage,
+    width: number,
+    height: number
+  ): DecodedImage {
+    const data = Buffer.alloc(width * height * 4);
+    const scaleX = image.width / width;
+    const scaleY = image.height / height;
+
+    for (let y = 0; y < height; y++) {
+      const sy = Math.max(0, (y + 0.5) * scaleY - 0.5);
+      const y0 = Math.min(Math.floor(sy), image.height - 1);
+      const y1 = Math.min(y0 + 1, image.height - 1);
+      const fy = sy - y0;
+
+      for (let x = 0; x < width; x++) {
+        const sx = Math.max(0, (x + 0.5) * scaleX - 0.5);
+        const x0 = Math.min(Math.floor(sx), image.width - 1);
+        const x1 = Math.min(x0 + 1, image.width - 1);
+        const fx = sx - x0;
+
+        for (let c = 0; c < 4; c++) {
+          const top =
+            image.data[(y0 * image.width + x0) * 4 + c] * (1 - fx) +
+            image.data[(y0 * image.width + x1) * 4 + c] * fx;
+          const bottom =
+            image.data[(y1 * image.width + x0) * 4 + c] * (1 - fx) +
+            image.data[(y1 * image.width + x1) * 4 + c] * fx;
+          data[(y * width + x) * 4 + c] = Math.round(
+            top * (1 - fy) + bottom * fy
+          );
+        }
+      }
+    }
+
+    return { width, height, data };
+  }
+
+  /**
+   * Groups the mismatched pixels found by `compare` into bounding
+   * rectangles. The mask is bucketed into small cells so that nearby changes
+   * merge into a single region.
+   */
+  private static findRegions(
+    mask: Uint8Array,
+    width: number,
+    height: number
+  ): DiffRegion[] {
+    const cellSize = this.REGION_CELL_SIZE;
+    const columns = Math.ceil(width / cellSize);
+    const rows = Math.ceil(height / cellSize);
+    const cellPixels = new Uint32Array(columns * rows);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (mask[y * width + x]) {
+          cellPixels[
+            Math.floor(y / cellSize) * columns + Math.floor(x / cellSize)
+          ]++;
+        }
+      }
+    }
+
+    const visited = new Uint8Array(columns * rows);
+    const regions: DiffRegion[] = [];
+
+    for (let start = 0; start < cellPixels.length; start++) {
+      if (!cellPixels[start] || visited[start]) continue;
+
+      let minColumn = columns;
+      let minRow = rows;
+      let maxColumn = 0;
+      let maxRow = 0;
+      let pixels = 0;
+      const stack = [start];
+      visited[start] = 1;
+
+      while (stack.length) {
+        const cell = stack.pop()!;
+        const column = cell % columns;
+        const row = Math.floor(cell / columns);
+
+        minColumn = Math.min(minColumn, column);
+        minRow = Math.min(minRow, row);
+        maxColumn = Math.max(maxColumn, column);
+        maxRow = Math.max(maxRow, row);
+        pixels += cellPixels[cell];
+
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nextColumn = column + dx;
+            const nextRow = row + dy;
+            if (
+              nextColumn < 0 ||
+              nextRow < 0 ||
+              nextColumn >= columns ||
+              nextRow >= rows
+            ) {
+              continue;
+            }
+
+            const next = nextRow * columns + nextColumn;
+            if (cellPixels[next] && !visited[next]) {
+              visited[next] = 1;
+              stack.push(next);
+            }
+          }
+        }
+      }
+
+      regions.push(
+        this.tightenRegion(
+          mask,
+          width,
+          minColumn * cellSize,
+          minRow * cellSize,
+          Math.min((maxColumn + 1) * cellSize, width),
+          Math.min((maxRow + 1) * cellSize, height),
+          pixels
+        )
+      );
+    }
+
+    return regions
+      .sort((a, b) => b.pixels - a.pixels)
+      .slice(0, this.MAX_REGIONS);
+  }
+
+  private static tightenRegion(
+    mask: Uint8Array,
+    width: number,
+    left: number,
+    top: number,
+    right: number,
+    bottom: number,
+    pixels: number
+  ): DiffRegion {
+    let minX = right;
+    let minY = bottom;
+    let maxX = left;
+    let maxY = top;
+
+    for (let y = top; y < bottom; y++) {
+      for (let x = left; x < right; x++) {
+        if (mask[y * width + x]) {
+          minX = Math.min(minX, x);
+          minY = Math.min(minY, y);
+          maxX = Math.max(maxX, x);
+          maxY = Math.max(maxY, y);
+        }
+      }
+    }
+
+    return {
+      x: minX,
+      y: minY,
+      width: maxX - minX + 1,
+      height: maxY - minY + 1,
+      pixels,
+    };
+  }
+
+  private static parseColor(hex: string): [number, number, number] {
+    const value = parseInt(hex.replace(/^#/, ''), 16);
+    return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+  }
+
+  private static toPng(image: DecodedImage): PNG {
+    const png = new PNG({ width: image.width, height: image.height });
+    png.data = image.data;
+    return png;
+  }
+
+  private static toDataUrl(png: PNG): string {
+    const buffer = PNG.sync.write(png);
+    return `data:image/png;base64,${buffer.toString('base64')}`;
+  }
+}
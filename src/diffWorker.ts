@@ -0,0 +1,49 @@
+import { parentPort } from 'worker_threads';
+import { DiffImageGenerator } from './diffEngine';
+import { DiffTaskRequest, DiffTaskResponse } from './diffWorkerPool';
+
+/** Entry point of the worker threads started by `DiffWorkerPool`. */
+const port = parentPort;
+if (!port) {
+  throw new Error('diffWorker must run in a worker thread');
+}
+
+const post = (response: DiffTaskResponse, transfer: ArrayBuffer[] = []) =>
+  port.postMessage(response, transfer);
+
+port.on('message', async ({ id, method, ...request }: DiffTaskRequest) => {
+  // Buffers arrive as plain `Uint8Array`s after crossing threads.
+  const args = request.args.map((arg) =>
+    arg instanceof Uint8Array
+      ? Buffer.from(arg.buffer, arg.byteOffset, arg.byteLength)
+      : arg
+  );
+
+  try {
+    let result: unknown;
+    if (method === 'generate') {
+      const [currentData, previousData, options] = args as Parameters<
+        typeof DiffImageGenerator.generate
+      >;
+      result = await DiffImageGenerator.generate(
+        currentData,
+        previousData,
+        options,
+        (tile) =>
+          post({ id, type: 'tile', tile }, [tile.data.buffer as ArrayBuffer])
+      );
+    } else {
+      const run = DiffImageGenerator[method] as (
+        ...args: unknown[]
+      ) => Promise<unknown>;
+      result = await run.apply(DiffImageGenerator, args);
+    }
+    post({ id, type: 'result', result });
+  } catch (error) {
+    post({
+      id,
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
@@ -0,0 +1,201 @@
+import * as os from 'os';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { DiffImageGenerator, DiffTile } from './diffEngine';
+
+/** Methods of `DiffImageGenerator` that run in a worker. */
+export type DiffTaskMethod =
+  | 'generate'
+  | 'generateAnimation'
+  | 'alignFrame'
+  | 'createComposite'
+  | 'createBeforeAfterGif'
+  | 'createThumbnail';
+
+export type DiffTaskArgs<M extends DiffTaskMethod> = Parameters<
+  (typeof DiffImageGenerator)[M]
+>;
+
+export type DiffTaskResult<M extends DiffTaskMethod> = Awaited<
+  ReturnType<(typeof DiffImageGenerator)[M]>
+>;
+
+export interface DiffTaskRequest {
+  id: number;
+  method: DiffTaskMethod;
+  args: unknown[];
+}
+
+export type DiffTaskResponse =
+  | { id: number; type: 'tile'; tile: DiffTile }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; message: string };
+
+/** Matches `vscode.CancellationToken`. */
+export interface CancellationFlag {
+  readonly isCancellationRequested: boolean;
+  onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+export class CancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+  }
+}
+
+interface PendingTask {
+  request: DiffTaskRequest;
+  onTile?: (tile: DiffTile) => void;
+  resolve(result: unknown): void;
+  reject(error: Error): void;
+  worker?: Worker;
+}
+
+/**
+ * Runs decoding and diffing in worker threads, so that large images do not
+ * block the thread that calls it. Cancelling a task that already runs
+ * terminates its worker, which is replaced on demand.
+ */
+export class DiffWorkerPool {
+  private static readonly SIZE = Math.max(1, Math.min(4, os.cpus().length - 1));
+  private static readonly idle: Worker[] = [];
+  private static readonly running = new Map<Worker, PendingTask>();
+  private static readonly queue: PendingTask[] = [];
+  private static nextId = 0;
+
+  static run<M extends DiffTaskMethod>(
+    method: M,
+    args: DiffTaskArgs<M>,
+    options: {
+      /** Called with each band of a diff image, for `generate`. */
+      onTile?: (tile: DiffTile) => void;
+      token?: CancellationFlag;
+    } = {}
+  ): Promise<DiffTaskResult<M>> {
+    const { onTile, token } = options;
+
+    return new Promise<DiffTaskResult<M>>((resolve, reject) => {
+      if (token?.isCancellationRequested) {
+        reject(new CancelledError());
+        return;
+      }
+
+      const subscription = token?.onCancellationRequested(() =>
+        this.cancel(task)
+      );
+      const task: PendingTask = {
+        request: { id: this.nextId++, method, args },
+        onTile,
+        resolve: (result) => {
+          subscription?.dispose();
+          resolve(result as DiffTaskResult<M>);
+        },
+        reject: (error) => {
+          subscription?.dispose();
+          reject(error);
+        },
+      };
+
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  /** Stops every worker and rejects the tasks that have not finished. */
+  static dispose() {
+    for (const task of [...this.queue, ...this.running.values()]) {
+      task.reject(new CancelledError());
+    }
+    for (const worker of [...this.idle, ...this.running.keys()]) {
+      worker.terminate();
+    }
+    this.queue.length = 0;
+    this.idle.length = 0;
+    this.running.clear();
+  }
+
+  private static dispatch() {
+    while (
+      this.queue.length &&
+      (this.idle.length || this.running.size < this.SIZE)
+    ) {
+      const worker = this.idle.pop() || this.createWorker();
+      const task = this.queue.shift() as PendingTask;
+
+      task.worker = worker;
+      this.running.set(worker, task);
+      worker.ref();
+      worker.postMessage(task.request);
+    }
+  }
+
+  private static cancel(task: PendingTask) {
+    const queued = this.queue.indexOf(task);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+    } else if (task.worker && this.running.get(task.worker) === task) {
+      // pixelmatch cannot be interrupted, so stop the whole thread.
+      this.running.delete(task.worker);
+      task.worker.terminate();
+    } else {
+      return;
+    }
+
+    task.reject(new CancelledError());
+    this.dispatch();
+  }
+
+  private static createWorker(): Worker {
+    const worker = new Worker(path.join(__dirname, 'diffWorker.js'));
+
+    worker.on('message', (response: DiffTaskResponse) => {
+      const task = this.running.get(worker);
+      if (!task || task.request.id !== response.id) return;
+
+      if (response.type === 'tile') {
+        task.onTile?.(response.tile);
+        return;
+      }
+
+      this.running.delete(worker);
+      // Idle workers must not keep a command line process alive.
+      worker.unref();
+      this.idle.push(worker);
+
+      if (response.type === 'result') {
+        task.resolve(this.toBuffer(response.result));
+      } else {
+        task.reject(new Error(response.message));
+      }
+      this.dispatch();
+    });
+
+    worker.on('error', (error) => {
+      const task = this.running.get(worker);
+      this.running.delete(worker);
+      task?.reject(error);
+      this.dispatch();
+    });
+
+    worker.on('exit', (code) => {
+      const idle = this.idle.indexOf(worker);
+      if (idle >= 0) this.idle.splice(idle, 1);
+
+      const task = this.running.get(worker);
+      if (task) {
+        this.running.delete(worker);
+        task.reject(new Error(`Diff worker stopped with exit code ${code}`));
+        this.dispatch();
+      }
+    });
+
+    return worker;
+  }
+
+  /** Buffers arrive as plain `Uint8Array`s after crossing threads. */
+  private static toBuffer(result: unknown): unknown {
+    return result instanceof Uint8Array && !Buffer.isBuffer(result)
+      ? Buffer.from(result.buffer, result.byteOffset, result.byteLength)
+      : result;
+  }
+}
@@ -1,34 +1,204 @@
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
-import { execSync } from 'child_process';
-import pixelmatch from 'pixelmatch';
-import { PNG } from 'pngjs';
+import {
+  BatchDiffEntry,
+  BatchDiffReport,
+  BatchDiffService,
+} from './batchDiffService';
+import {
+  AlignedImages,
+  AlignmentMode,
+  AnimationDiff,
+  DEFAULT_DIFF_OPTIONS,
+  DiffImageGenerator,
+  DiffMetrics,
+  DiffOptions,
+  DiffRegion,
+  DiffResult,
+  DiffTile,
+  exceedsBudget,
+  ImageSize,
+  isImagePath,
+} from './diffEngine';
+import { CancelledError, DiffWorkerPool } from './diffWorkerPool';
+import {
+  CONFLICT_STAGES,
+  ConflictStage,
+  ConflictVersions,
+  GitBlobError,
+  GitCommitInfo,
+  GitService,
+  ScmVersion,
+  ScmVersions,
+} from './gitService';
+import { IgnoreRegion, IgnoreRegionService } from './ignoreRegionService';
+import { ImageDecoder, ImageInfo } from './imageDecoder';
 
 interface ImageDiffData {
   currentPath: string;
-  currentData: Buffer;
-  previousData: Buffer;
+  /** Path of the previous version, when it differs from `currentPath`. */
+  previousPath?: string;
+  /** Null when the image does not exist in that version. */
+  currentData: Buffer | null;
+  previousData: Buffer | null;
   currentLabel: string;
   previousLabel: string;
 }
 
-interface GitVersionOptions {
-  filePath: string;
+interface DiffViewContent {
+  currentPath: string;
+  previousPath: string;
+  /** Null when the file does not exist in that version. */
+  currentData: Buffer | null;
+  previousData: Buffer | null;
+  currentLabel: string;
+  previousLabel: string;
+  /** Values selected in the version switcher, if the viewer has one. */
+  currentVersion?: string;
+  previousVersion?: string;
+}
+
+interface VersionOption {
+  value: string;
+  label: string;
+  /** Commit of the version, when stepping through a file's history. */
+  commit?: GitCommitInfo;
+}
+
+interface VersionSource {
+  available: VersionOption[];
+  load: (
+    previous: string,
+    current: string
+  ) => DiffViewContent | Promise<DiffViewContent>;
+  /**
+   * Set when `available` is a file's history, newest first. The viewer then
+   * steps through it pair by pair and shows a filmstrip of all versions,
+   * with thumbnails made once their frames are scrolled into view.
+   */
+  history?: {
+    thumbnail: (version: string) => Promise<string | null>;
+  };
+}
+
+interface ConflictDiff {
+  label: string;
+  diff: DiffResult | null;
+}
+
+/** The parts of the built-in Git extension's API (`vscode.git`) used here. */
+interface GitExtension {
+  getAPI(version: 1): GitAPI;
+}
+
+interface GitAPI {
+  readonly repositories: GitRepository[];
+  getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+interface GitRepository {
+  readonly rootUri: vscode.Uri;
+}
+
+/**
+ * The parts of the Git extension's resource state used to tell staged from
+ * unstaged changes.
+ */
+interface GitResourceState extends vscode.SourceControlResourceState {
+  /** 0 merge, 1 index, 2 working tree, 3 untracked. */
+  resourceGroupType?: number;
+  /** Path before a rename. */
+  original?: vscode.Uri;
+}
+
+type ExportFormat = 'diff' | 'sideBySide' | 'gif' | 'report';
+
+interface ReportFileSummary {
+  path: string;
+  previousPath: string;
+  previousRevision: string;
+  currentRevision: string;
+  status: string;
+  previousSize: ImageSize | null;
+  currentSize: ImageSize | null;
+  mismatch: number | null;
+  mismatchPercentage: number | null;
+  regions: DiffRegion[];
+  metrics: DiffMetrics | null;
+}
+
+interface ReportSummary {
+  generatedAt: string;
+  options: DiffOptions;
+  files: ReportFileSummary[];
+}
+
+interface ReportEntry {
+  summary: ReportFileSummary;
+  images: { label: string; src: string }[];
+}
+
+/** Sources allowed by a webview page's Content-Security-Policy. */
+interface WebviewSecurity {
+  cspSource: string;
+  /** Marks the page's own scripts, fresh for every page. */
+  nonce: string;
+}
+
+interface RevisionQuickPickItem extends vscode.QuickPickItem {
   revision: string;
-  workspaceRoot: string;
+  revisionLabel: string;
+  filePath?: string;
 }
 
+const SCM_VERSION_LABELS: Record<ScmVersion, string> = {
+  HEAD: 'HEAD',
+  index: 'Index',
+  workingTree: 'Working Tree',
+};
+
 function isImageFile(uri: vscode.Uri): boolean {
-  return /\.(png|jpg|jpeg|gif|bmp|webp)$/i.test(uri.fsPath);
+  return isImagePath(uri.fsPath);
+}
+
+/**
+ * Reports a version that cannot be read from Git with its specific reason,
+ * and anything else as an unexpected error.
+ */
+function showGitError(error: unknown, prefix = 'Error') {
+  if (error instanceof GitBlobError) {
+    const show =
+      error.reason === 'missing'
+        ? vscode.window.showWarningMessage
+        : vscode.window.showErrorMessage;
+    show(`Cannot open image: ${error.message}`);
+  } else {
+    vscode.window.showErrorMessage(`${prefix}: ${error}`);
+  }
+}
+
+/** Creates the Content-Security-Policy sources for a new webview page. */
+function getWebviewSecurity(webview: vscode.Webview): WebviewSecurity {
+  return {
+    cspSource: webview.cspSource,
+    nonce: crypto.randomBytes(16).toString('base64'),
+  };
 }
 
 export function activate(context: vscode.ExtensionContext) {
+  ImageResourceService.initialize(context);
+
   const commands = [
     vscode.commands.registerCommand(
       'imageDiff.compareWithPrevious',
       handleCompareWithPrevious
     ),
+    vscode.commands.registerCommand(
+      'imageDiff.compareWithRevision',
+      handleCompareWithRevision
+    ),
     vscode.commands.registerCommand(
       'imageDiff.openScmChanges',
       handleOpenScmChanges
@@ -37,6 +207,30 @@ export function activate(context: vscode.ExtensionContext) {
       'imageDiff.openAsDiffTool',
       handleOpenAsDiffTool
     ),
+    vscode.commands.registerCommand(
+      'imageDiff.selectForCompare',
+      handleSelectForCompare
+    ),
+    vscode.commands.registerCommand(
+      'imageDiff.compareWithSelected',
+      handleCompareWithSelected
+    ),
+    vscode.commands.registerCommand(
+      'imageDiff.compareSelected',
+      handleCompareSelected
+    ),
+    vscode.commands.registerCommand(
+      'imageDiff.compareWithFile',
+      handleCompareWithFile
+    ),
+    vscode.commands.registerCommand(
+      'imageDiff.resolveConflict',
+      handleResolveConflict
+    ),
+    vscode.commands.registerCommand(
+      'imageDiff.compareRange',
+      handleCompareRange
+    ),
   ];
 
   const imageEditorProvider = vscode.window.registerCustomEditorProvider(
@@ -50,45 +244,98 @@ export function activate(context: vscode.ExtensionContext) {
 
   context.subscriptions.push(...commands, imageEditorProvider);
 
+  // Image marked with "Select for Compare", the left side of the next
+  // "Compare with Selected".
+  let selectedForCompare: vscode.Uri | null = null;
+
   async function handleCompareWithPrevious(uri: vscode.Uri) {
     try {
       const currentImagePath = uri.fsPath;
-      const workspaceRoot = getWorkspaceRoot(uri);
+      const workspaceRoot = await getRepositoryRoot(uri);
 
       if (!workspaceRoot) return;
 
-      const previousImageData = await GitService.getVersion({
+      const [{ commit }, history] = await Promise.all([
+        GitService.getPreviousVersion(currentImagePath, workspaceRoot),
+        GitService.getFileHistory(currentImagePath, workspaceRoot),
+      ]);
+      const currentImageData = await FileService.readFile(currentImagePath);
+
+      DiffViewerService.openHistoryViewer(context, {
         filePath: currentImagePath,
-        revision: 'HEAD~1',
         workspaceRoot,
+        history,
+        currentData: currentImageData,
+        previous: commit.hash,
       });
+    } catch (error) {
+      showGitError(error);
+    }
+  }
 
-      if (!previousImageData) {
-        vscode.window.showWarningMessage(
-          'Cannot retrieve previous version (HEAD~1) of this image from Git'
+  async function handleCompareWithRevision(uri?: vscode.Uri) {
+    try {
+      const targetUri = uri || vscode.window.activeTextEditor?.document.uri;
+
+      if (!targetUri || !isImageFile(targetUri)) {
+        vscode.window.showErrorMessage(
+          'Please select an image file to compare with a revision.'
         );
         return;
       }
 
+      const currentImagePath = targetUri.fsPath;
+      const workspaceRoot = await getRepositoryRoot(targetUri);
+
+      if (!workspaceRoot) return;
+
+      const history = await GitService.getFileHistory(
+        currentImagePath,
+        workspaceRoot
+      );
+      const picked = await pickRevision(history);
+
+      if (!picked) return;
+
+      const previousImagePath = picked.filePath
+        ? path.join(workspaceRoot, picked.filePath)
+        : currentImagePath;
+      const previousImageData = await GitService.readBlob({
+        filePath: previousImagePath,
+        revision: picked.revision,
+        workspaceRoot,
+      });
+
       const currentImageData = await FileService.readFile(currentImagePath);
 
+      if (history.some((commit) => commit.hash === picked.revision)) {
+        DiffViewerService.openHistoryViewer(context, {
+          filePath: currentImagePath,
+          workspaceRoot,
+          history,
+          currentData: currentImageData,
+          previous: picked.revision,
+        });
+        return;
+      }
+
       DiffViewerService.openDiffViewer(context, {
         currentPath: currentImagePath,
         currentData: currentImageData,
         previousData: previousImageData,
         currentLabel: 'Current',
-        previousLabel: 'Previous Commit (HEAD~1)',
+        previousLabel: picked.revisionLabel,
+        previousPath: previousImagePath,
       });
     } catch (error) {
-      vscode.window.showErrorMessage(`Error: ${error}`);
+      showGitError(error);
     }
   }
 
-  async function handleOpenScmChanges(
-    resourceState: vscode.SourceControlResourceState
-  ) {
+  async function handleOpenScmChanges(resource: GitResourceState | vscode.Uri) {
     try {
-      const uri = resourceState.resourceUri;
+      const uri =
+        resource instanceof vscode.Uri ? resource : resource?.resourceUri;
 
       if (!uri || !isImageFile(uri)) {
         vscode.window.showErrorMessage(
@@ -97,35 +344,166 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      const currentImagePath = uri.fsPath;
-      const workspaceRoot = getWorkspaceRoot(uri);
+      if (
+        !(resource instanceof vscode.Uri) &&
+        resource.resourceGroupType === 0
+      ) {
+        await handleResolveConflict(resource);
+        return;
+      }
+
+      const filePath = uri.fsPath;
+      const workspaceRoot = await getRepositoryRoot(uri);
 
       if (!workspaceRoot) return;
 
-      const headImageData = await GitService.getVersion({
-        filePath: currentImagePath,
-        revision: 'HEAD',
+      const originalPath =
+        resource instanceof vscode.Uri ? filePath : resource.original?.fsPath;
+      const versions = await GitService.getScmVersions(
+        filePath,
         workspaceRoot,
-      });
+        originalPath
+      );
+
+      // Staged changes compare HEAD with the index, everything else the index
+      // with the working tree.
+      const [previous, current]: [ScmVersion, ScmVersion] = isStaged(resource)
+        ? ['HEAD', 'index']
+        : ['index', 'workingTree'];
 
-      if (!headImageData) {
+      if (!versions[previous] && !versions[current]) {
         vscode.window.showWarningMessage(
-          'Cannot retrieve HEAD version of this image. This might be a new file.'
+          `Cannot retrieve ${SCM_VERSION_LABELS[previous]} or ${SCM_VERSION_LABELS[current]} version of this image`
         );
         return;
       }
 
-      const currentImageData = await FileService.readFile(currentImagePath);
+      DiffViewerService.openScmDiffViewer(context, {
+        filePath,
+        versions,
+        previous,
+        current,
+      });
+    } catch (error) {
+      showGitError(error, 'Error opening SCM changes');
+    }
+  }
 
-      DiffViewerService.openDiffViewer(context, {
-        currentPath: currentImagePath,
-        currentData: currentImageData,
-        previousData: headImageData,
-        currentLabel: 'Working Tree',
-        previousLabel: 'HEAD',
+  async function handleCompareRange(
+    target?: vscode.Uri | vscode.SourceControl
+  ) {
+    try {
+      // The SCM title menu passes the source control of the repository.
+      const uri =
+        target instanceof vscode.Uri ? target : target && target.rootUri;
+      const workspaceRoot = uri
+        ? await getRepositoryRoot(uri)
+        : await pickRepository();
+
+      if (!workspaceRoot) return;
+
+      const commits = await GitService.getRecentCommits(workspaceRoot);
+      const picked = await pickRevision(commits, {
+        title: 'Compare All Images in Commit/Range',
+        placeholder:
+          'Select a commit, or type a range such as main..feature or v1.0...HEAD',
+      });
+
+      if (!picked) return;
+
+      const { from, to } = await GitService.resolveRange(
+        picked.revision,
+        workspaceRoot
+      );
+
+      const report = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: 'Comparing images',
+          cancellable: true,
+        },
+        (progress, token) =>
+          BatchDiffService.run(
+            workspaceRoot,
+            from,
+            to,
+            ConfigurationService.getDiffOptions(),
+            progress,
+            token
+          )
+      );
+
+      if (!report) return;
+
+      if (!report.entries.length) {
+        vscode.window.showInformationMessage(
+          `No images changed in ${picked.revisionLabel}`
+        );
+        return;
+      }
+
+      DiffViewerService.openBatchViewer(context, report);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error comparing images: ${error}`);
+    }
+  }
+
+  async function handleResolveConflict(
+    resource?: GitResourceState | vscode.Uri
+  ) {
+    try {
+      const uri =
+        resource instanceof vscode.Uri
+          ? resource
+          : resource?.resourceUri ||
+            vscode.window.activeTextEditor?.document.uri;
+
+      if (!uri || !isImageFile(uri)) {
+        vscode.window.showErrorMessage(
+          'Please select a conflicted image file to resolve.'
+        );
+        return;
+      }
+
+      const filePath = uri.fsPath;
+      const workspaceRoot = await getRepositoryRoot(uri);
+
+      if (!workspaceRoot) return;
+
+      const versions = await GitService.getConflictVersions(
+        filePath,
+        workspaceRoot
+      );
+
+      if (!versions.ours && !versions.theirs) {
+        vscode.window.showWarningMessage(
+          `${path.basename(filePath)} has no merge conflict to resolve`
+        );
+        return;
+      }
+
+      DiffViewerService.openConflictViewer(context, {
+        filePath,
+        workspaceRoot,
+        versions,
       });
     } catch (error) {
-      vscode.window.showErrorMessage(`Error opening SCM changes: ${error}`);
+      showGitError(error, 'Error opening conflict');
+    }
+  }
+
+  function isStaged(resource: GitResourceState | vscode.Uri): boolean {
+    if (!(resource instanceof vscode.Uri)) {
+      return resource.resourceGroupType === 1;
+    }
+    if (resource.scheme !== 'git') return false;
+
+    // Index URIs from the Git extension carry an empty or `~` ref.
+    try {
+      const { ref } = JSON.parse(resource.query);
+      return ref === '' || ref === '~';
+    } catch (error) {
+      return false;
     }
   }
 
@@ -159,182 +537,1398 @@ export function activate(context: vscode.ExtensionContext) {
     }
   }
 
-  function getWorkspaceRoot(uri: vscode.Uri): string | null {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders) {
+  async function handleSelectForCompare(uri: vscode.Uri) {
+    selectedForCompare = uri;
+    await vscode.commands.executeCommand(
+      'setContext',
+      'imageDiff.hasSelectedForCompare',
+      true
+    );
+  }
+
+  async function handleCompareWithSelected(uri: vscode.Uri) {
+    if (!selectedForCompare) {
       vscode.window.showErrorMessage(
-        'No workspace found. This extension requires a Git repository.'
+        'Use "Select for Compare" on an image first'
+      );
+      return;
+    }
+    await handleOpenAsDiffTool(selectedForCompare, uri);
+  }
+
+  /** Compares the two images selected in the Explorer, in selection order. */
+  async function handleCompareSelected(uri: vscode.Uri, uris?: vscode.Uri[]) {
+    const images = (uris || [uri]).filter(isImageFile);
+    if (images.length !== 2) {
+      vscode.window.showErrorMessage('Select exactly two images to compare');
+      return;
+    }
+    await handleOpenAsDiffTool(images[0], images[1]);
+  }
+
+  /**
+   * Compares an image with one picked from anywhere on disk. From the
+   * Command Palette both images are picked.
+   */
+  async function handleCompareWithFile(uri?: vscode.Uri) {
+    const pickImage = async (title: string, near?: vscode.Uri) => {
+      const picked = await vscode.window.showOpenDialog({
+        title,
+        openLabel: 'Compare',
+        defaultUri: near && vscode.Uri.file(path.dirname(near.fsPath)),
+        filters: { Images: ['png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp'] },
+      });
+      return picked && picked[0];
+    };
+
+    const right = uri || (await pickImage('Select an image to compare'));
+    if (!right) return;
+
+    const left = await pickImage(
+      `Compare ${path.basename(right.fsPath)} with`,
+      right
+    );
+    if (left) {
+      await handleOpenAsDiffTool(left, right);
+    }
+  }
+
+  async function getRepositoryRoot(uri: vscode.Uri): Promise<string | null> {
+    const root = await RepositoryService.getRepositoryRoot(uri);
+    if (!root) {
+      vscode.window.showErrorMessage(
+        `File is not in a Git repository: ${uri.fsPath}`
       );
-      return null;
     }
+    return root;
+  }
 
-    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
-    if (!workspaceFolder) {
+  async function pickRepository(): Promise<string | null> {
+    const roots = await RepositoryService.getRepositoryRoots();
+    if (!roots.length) {
       vscode.window.showErrorMessage(
-        `File does not belong to any open workspace: ${uri.fsPath}`
+        'No Git repository found in the open workspace.'
       );
       return null;
     }
+    if (roots.length === 1) return roots[0];
+
+    const picked = await vscode.window.showQuickPick(
+      roots.map((root) => ({
+        label: path.basename(root),
+        description: vscode.workspace.asRelativePath(root, true),
+        root,
+      })),
+      { placeHolder: 'Select a repository' }
+    );
+    return picked ? picked.root : null;
+  }
+
+  function pickRevision(
+    history: GitCommitInfo[],
+    options = {
+      title: 'Compare with Revision',
+      placeholder: 'Select a commit, or type a branch, tag or commit hash',
+    }
+  ): Promise<RevisionQuickPickItem | undefined> {
+    const historyItems: RevisionQuickPickItem[] = history.map((commit) => ({
+      label: `$(git-commit) ${commit.shortHash}`,
+      description: `${commit.author}, ${new Date(
+        commit.date
+      ).toLocaleString()}`,
+      detail: commit.subject,
+      revision: commit.hash,
+      revisionLabel: `${commit.shortHash} (${commit.subject})`,
+      filePath: commit.filePath,
+    }));
+
+    return new Promise((resolve) => {
+      const quickPick = vscode.window.createQuickPick<RevisionQuickPickItem>();
+      quickPick.title = options.title;
+      quickPick.placeholder = options.placeholder;
+      quickPick.matchOnDescription = true;
+      quickPick.matchOnDetail = true;
+      quickPick.items = historyItems;
 
-    return workspaceFolder.uri.fsPath;
+      quickPick.onDidChangeValue((value) => {
+        const ref = value.trim();
+        quickPick.items = ref
+          ? [
+              {
+                label: `$(git-branch) ${ref}`,
+                description: 'Use as revision',
+                revision: ref,
+                revisionLabel: ref,
+                alwaysShow: true,
+              },
+              ...historyItems,
+            ]
+          : historyItems;
+      });
+
+      quickPick.onDidAccept(() => {
+        const [selected] = quickPick.selectedItems;
+        if (!selected) return;
+        resolve(selected);
+        quickPick.hide();
+      });
+
+      quickPick.onDidHide(() => {
+        resolve(undefined);
+        quickPick.dispose();
+      });
+
+      quickPick.show();
+    });
   }
 }
 
-class GitService {
-  static async getVersion(options: GitVersionOptions): Promise<Buffer | null> {
+class RepositoryService {
+  /**
+   * Finds the root of the repository containing a file, including nested
+   * repositories and submodules. Asks the Git extension first, which knows
+   * every repository open in the window, then falls back to git itself.
+   */
+  static async getRepositoryRoot(uri: vscode.Uri): Promise<string | null> {
+    const api = await this.getGitAPI();
+    const repository = api && api.getRepository(uri);
+    if (repository) {
+      return repository.rootUri.fsPath;
+    }
+
+    // Deleted files and `git:` URIs may point at paths that no longer exist.
+    let directory = path.dirname(uri.fsPath);
+    while (!fs.existsSync(directory) && path.dirname(directory) !== directory) {
+      directory = path.dirname(directory);
+    }
+    return GitService.getRepositoryRoot(directory);
+  }
+
+  /** Roots of all repositories in the workspace, for multi-root workspaces. */
+  static async getRepositoryRoots(): Promise<string[]> {
+    const api = await this.getGitAPI();
+    if (api && api.repositories.length) {
+      return api.repositories.map((repository) => repository.rootUri.fsPath);
+    }
+
+    const roots = await Promise.all(
+      (vscode.workspace.workspaceFolders || []).map((folder) =>
+        GitService.getRepositoryRoot(folder.uri.fsPath)
+      )
+    );
+    return [...new Set(roots.filter((root): root is string => !!root))];
+  }
+
+  /**
+   * Directory of the `.imagediff.json` that applies to a file: the root of
+   * its repository, or its workspace folder outside of Git.
+   */
+  static async getIgnoreRegionRoot(filePath: string): Promise<string> {
+    const uri = vscode.Uri.file(filePath);
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    return (
+      (await this.getRepositoryRoot(uri)) ||
+      (folder ? folder.uri.fsPath : path.dirname(filePath))
+    );
+  }
+
+  private static async getGitAPI(): Promise<GitAPI | null> {
     try {
-      const { filePath, revision, workspaceRoot } = options;
-      const relativePath = path
-        .relative(workspaceRoot, filePath)
-        .replace(/\\/g, '/');
-      const gitCommand = `git show ${revision}:"${relativePath}"`;
-
-      console.log(`Executing: ${gitCommand}`);
-
-      const content = execSync(gitCommand, {
-        cwd: workspaceRoot,
-        encoding: 'buffer',
-        maxBuffer: 10 * 1024 * 1024,
-      });
+      const extension =
+        vscode.extensions.getExtension<GitExtension>('vscode.git');
+      if (!extension) return null;
 
-      return content;
+      const git = extension.isActive
+        ? extension.exports
+        : await extension.activate();
+      return git.getAPI(1);
     } catch (error) {
-      console.error(
-        `Cannot get version '${options.revision}' of file '${options.filePath}':`,
-        error
-      );
+      console.error('Cannot access the Git extension API:', error);
       return null;
     }
   }
 }
 
+class ConfigurationService {
+  static getDiffOptions(): DiffOptions {
+    const config = vscode.workspace.getConfiguration('imageDiff');
+    return {
+      alignment: config.get('alignment', DEFAULT_DIFF_OPTIONS.alignment),
+      threshold: config.get('threshold', DEFAULT_DIFF_OPTIONS.threshold),
+      includeAA: config.get('includeAA', DEFAULT_DIFF_OPTIONS.includeAA),
+      alpha: config.get('alpha', DEFAULT_DIFF_OPTIONS.alpha),
+      aaColor: config.get('aaColor', DEFAULT_DIFF_OPTIONS.aaColor),
+      diffColor: config.get('diffColor', DEFAULT_DIFF_OPTIONS.diffColor),
+      diffColorAlt: config.get(
+        'diffColorAlt',
+        DEFAULT_DIFF_OPTIONS.diffColorAlt
+      ),
+      diffMask: config.get('diffMask', DEFAULT_DIFF_OPTIONS.diffMask),
+      // Ignore regions belong to an image, see `getIgnoreRegions`.
+      ignoreRegions: [],
+    };
+  }
+
+  /**
+   * Reads the ignore regions of an image, warning instead of failing the
+   * comparison when `.imagediff.json` is malformed.
+   */
+  static getIgnoreRegions(root: string, filePath: string): IgnoreRegion[] {
+    try {
+      return IgnoreRegionService.getRegions(root, filePath);
+    } catch (error) {
+      vscode.window.showWarningMessage(
+        `Ignoring ${IgnoreRegionService.FILE_NAME}: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+      return [];
+    }
+  }
+
+  /** Mismatch percentage allowed before a diff counts as failing. */
+  static getMismatchBudget(): number {
+    return vscode.workspace
+      .getConfiguration('imageDiff')
+      .get('mismatchBudget', 0);
+  }
+
+  static isDefaultDiffTool(): boolean {
+    return vscode.workspace
+      .getConfiguration('imageDiff')
+      .get('defaultDiffTool', true);
+  }
+}
+
 class FileService {
   static async readFile(filePath: string): Promise<Buffer> {
     return fs.readFileSync(filePath);
   }
 
+  static async writeFile(filePath: string, data: Buffer) {
+    fs.writeFileSync(filePath, data);
+  }
+
+  /**
+   * Reads a file from disk, or through the file system provider registered
+   * for its scheme, such as the Git extension's `git:` URIs.
+   */
+  static async readUri(uri: vscode.Uri): Promise<Buffer> {
+    if (uri.scheme === 'file') {
+      return this.readFile(uri.fsPath);
+    }
+    return Buffer.from(await vscode.workspace.fs.readFile(uri));
+  }
+
   static getImageBase64(data: Buffer, filePath: string): string {
-    const ext = path.extname(filePath).slice(1);
-    return `data:image/${ext};base64,${data.toString('base64')}`;
+    const mimeType = ImageDecoder.getMimeType(data, filePath);
+    return `data:${mimeType};base64,${data.toString('base64')}`;
   }
 }
 
-class DiffImageGenerator {
-  static async generate(
-    currentData: Buffer,
-    previousData: Buffer
-  ): Promise<string | null> {
-    try {
-      const currentPng = PNG.sync.read(currentData);
-      const previousPng = PNG.sync.read(previousData);
-
-      const width = Math.max(currentPng.width, previousPng.width);
-      const height = Math.max(currentPng.height, previousPng.height);
-
-      const currentImg = new PNG({ width, height });
-      const previousImg = new PNG({ width, height });
-      const diffImg = new PNG({ width, height });
-
-      PNG.bitblt(
-        currentPng,
-        currentImg,
-        0,
-        0,
-        currentPng.width,
-        currentPng.height,
-        0,
-        0
-      );
-      PNG.bitblt(
-        previousPng,
-        previousImg,
-        0,
-        0,
-        previousPng.width,
-        previousPng.height,
-        0,
-        0
-      );
+/**
+ * Serves images to webviews as resource URIs instead of inlining them as
+ * base64. Files that still hold the shown bytes are served from disk, and
+ * everything else, such as Git blobs and generated diffs, from a store in the
+ * extension's global storage named after each image's hash.
+ */
+class ImageResourceService {
+  /** Stored images unused for this long are removed on activation. */
+  private static readonly MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+  private static storeUri: vscode.Uri | null = null;
 
-      pixelmatch(
-        currentImg.data,
-        previousImg.data,
-        diffImg.data,
-        width,
-        height,
-        { threshold: 0.1, includeAA: false }
-      );
+  static initialize(context: vscode.ExtensionContext) {
+    this.storeUri = vscode.Uri.joinPath(context.globalStorageUri, 'images');
+
+    try {
+      const storePath = this.storeUri.fsPath;
+      fs.mkdirSync(storePath, { recursive: true });
 
-      const diffBuffer = PNG.sync.write(diffImg);
-      return `data:image/png;base64,${diffBuffer.toString('base64')}`;
+      const expired = Date.now() - this.MAX_AGE;
+      for (const name of fs.readdirSync(storePath)) {
+        const filePath = path.join(storePath, name);
+        if (fs.statSync(filePath).mtimeMs < expired) {
+          fs.rmSync(filePath, { force: true });
+        }
+      }
     } catch (error) {
-      console.error('Failed to generate diff image:', error);
-      return null;
+      console.error('Cannot clean up the image store:', error);
     }
   }
-}
 
-class DiffViewerService {
-  static openDiffViewer(context: vscode.ExtensionContext, data: ImageDiffData) {
-    const panel = this.createWebviewPanel(
-      `Image Diff - ${path.basename(data.currentPath)}`,
-      context,
-      [path.dirname(data.currentPath)]
-    );
+  /** The store, which every webview showing images must allow. */
+  static getStoreUri(): vscode.Uri {
+    if (!this.storeUri) {
+      throw new Error('Image store is not initialized');
+    }
+    return this.storeUri;
+  }
 
-    const currentImageBase64 = FileService.getImageBase64(
-      data.currentData,
-      data.currentPath
-    );
-    const previousImageBase64 = FileService.getImageBase64(
-      data.previousData,
-      data.currentPath
-    );
+  /**
+   * Returns a URI for an image version. The webview must allow the folder of
+   * `filePath` as a local resource root for files served from disk.
+   */
+  static async getImageUri(
+    webview: vscode.Webview,
+    data: Buffer,
+    filePath: string
+  ): Promise<string> {
+    if (await this.isOnDisk(data, filePath)) {
+      return webview.asWebviewUri(vscode.Uri.file(filePath)).toString();
+    }
 
-    DiffImageGenerator.generate(data.currentData, data.previousData).then(
-      (diffImageBase64) => {
-        panel.webview.html = WebviewContentGenerator.getDiffViewerContent({
-          currentImage: currentImageBase64,
-          previousImage: previousImageBase64,
-          diffImage: diffImageBase64,
-          currentLabel: data.currentLabel,
-          previousLabel: data.previousLabel,
-        });
-      }
+    const format = ImageDecoder.detectFormat(data, filePath);
+    return this.store(
+      webview,
+      data,
+      format ? `.${format}` : path.extname(filePath)
     );
   }
 
-  static openTwoFilesDiffViewer(
-    context: vscode.ExtensionContext,
-    options: {
-      leftPath: string;
-      rightPath: string;
-      leftData: Buffer;
-      rightData: Buffer;
-      title?: string;
+  /** Returns a URI for an image generated as a data URL, such as a diff. */
+  static async getDataUrlUri(
+    webview: vscode.Webview,
+    dataUrl: string
+  ): Promise<string> {
+    const [header, base64] = dataUrl.split(',');
+    const format = /^data:image\/(\w+)/.exec(header)?.[1] || 'png';
+    return this.store(webview, Buffer.from(base64, 'base64'), `.${format}`);
+  }
+
+  private static async isOnDisk(
+    data: Buffer,
+    filePath: string
+  ): Promise<boolean> {
+    try {
+      return (
+        fs.statSync(filePath).size === data.length &&
+        (await FileService.readFile(filePath)).equals(data)
+      );
+    } catch (error) {
+      return false;
     }
-  ) {
-    const { leftPath, rightPath, leftData, rightData, title } = options;
+  }
 
-    const panel = this.createWebviewPanel(
-      title ||
-        `Image Diff - ${path.basename(leftPath)} ↔ ${path.basename(rightPath)}`,
-      context,
-      [path.dirname(leftPath), path.dirname(rightPath)]
+  private static async store(
+    webview: vscode.Webview,
+    data: Buffer,
+    extension: string
+  ): Promise<string> {
+    const hash = crypto.createHash('sha1').update(data).digest('hex');
+    const fileUri = vscode.Uri.joinPath(
+      this.getStoreUri(),
+      `${hash}${extension}`
     );
+    const filePath = fileUri.fsPath;
 
-    const leftImageBase64 = FileService.getImageBase64(leftData, leftPath);
-    const rightImageBase64 = FileService.getImageBase64(rightData, rightPath);
-
-    DiffImageGenerator.generate(rightData, leftData).then((diffImageBase64) => {
-      panel.webview.html = WebviewContentGenerator.getDiffViewerContent({
-        currentImage: rightImageBase64,
-        previousImage: leftImageBase64,
-        diffImage: diffImageBase64,
-        currentLabel: 'Current',
-        previousLabel: 'Previous',
+    if (fs.existsSync(filePath)) {
+      // Keep images that are still in use from expiring.
+      const now = new Date();
+      fs.utimesSync(filePath, now, now);
+    } else {
+      // Write under a temporary name, so that other windows sharing the
+      // store never see a partial image.
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      await FileService.writeFile(tempPath, data);
+      fs.renameSync(tempPath, filePath);
+    }
+    return webview.asWebviewUri(fileUri).toString();
+  }
+}
+
+class ExportService {
+  static async exportComparison(
+    format: ExportFormat,
+    content: DiffViewContent,
+    currentData: Buffer,
+    previousData: Buffer,
+    options: DiffOptions
+  ) {
+    const { name, dir } = path.parse(content.currentPath);
+
+    try {
+      if (format === 'report') {
+        const diff = await DiffWorkerPool.run('generate', [
+          currentData,
+          previousData,
+          options,
+        ]);
+        await this.saveReport(
+          [
+            {
+              summary: this.summarize(
+                content.currentPath,
+                content.previousPath,
+                content.previousLabel,
+                content.currentLabel,
+                'M',
+                diff
+              ),
+              images: [
+                {
+                  label: content.previousLabel,
+                  src: FileService.getImageBase64(
+                    previousData,
+                    content.previousPath
+                  ),
+                },
+                {
+                  label: content.currentLabel,
+                  src: FileService.getImageBase64(
+                    currentData,
+                    content.currentPath
+                  ),
+                },
+                { label: 'Diff', src: diff && diff.diffImage },
+              ].filter((image): image is { label: string; src: string } =>
+                Boolean(image.src)
+              ),
+            },
+          ],
+          options,
+          path.join(dir, `${name}.diff-report.html`)
+        );
+        return;
+      }
+
+      const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(
+          path.join(
+            dir,
+            format === 'gif'
+              ? `${name}.before-after.gif`
+              : format === 'sideBySide'
+              ? `${name}.side-by-side.png`
+              : `${name}.diff.png`
+          )
+        ),
+        filters:
+          format === 'gif'
+            ? { 'GIF Image': ['gif'] }
+            : { 'PNG Image': ['png'] },
+      });
+      if (!target) return;
+
+      let data: Buffer;
+      if (format === 'gif') {
+        data = await DiffWorkerPool.run('createBeforeAfterGif', [
+          currentData,
+          previousData,
+          options,
+        ]);
+      } else if (format === 'sideBySide') {
+        data = await DiffWorkerPool.run('createComposite', [
+          currentData,
+          previousData,
+          options,
+        ]);
+      } else {
+        const diff = await DiffWorkerPool.run('generate', [
+          currentData,
+          previousData,
+          options,
+        ]);
+        if (!diff) throw new Error('Failed to generate diff image');
+        data = Buffer.from(diff.diffImage.split(',')[1], 'base64');
+      }
+
+      await FileService.writeFile(target.fsPath, data);
+      vscode.window.showInformationMessage(
+        `Saved ${path.basename(target.fsPath)}`
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error exporting diff: ${error}`);
+    }
+  }
+
+  static async exportBatchReport(report: BatchDiffReport) {
+    const { workspaceRoot, from, to, options, entries } = report;
+
+    try {
+      await this.saveReport(
+        entries.map(({ file, diff, thumbnail }) => ({
+          summary: this.summarize(
+            path.join(workspaceRoot, file.path),
+            path.join(workspaceRoot, file.oldPath),
+            from,
+            to,
+            file.status,
+            diff
+          ),
+          images: [
+            {
+              label: diff ? 'Diff' : file.status === 'D' ? 'Deleted' : 'Added',
+              src: diff ? diff.diffImage : thumbnail,
+            },
+          ].filter((image): image is { label: string; src: string } =>
+            Boolean(image.src)
+          ),
+        })),
+        options,
+        path.join(workspaceRoot, 'image-diff-report.html')
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error exporting report: ${error}`);
+    }
+  }
+
+  /**
+   * Writes a self-contained HTML report and a JSON summary next to it, both
+   * named after the file chosen in the save dialog.
+   */
+  private static async saveReport(
+    entries: ReportEntry[],
+    options: DiffOptions,
+    defaultPath: string
+  ) {
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(defaultPath),
+      filters: { 'HTML Report': ['html'] },
+    });
+    if (!target) return;
+
+    const summary: ReportSummary = {
+      generatedAt: new Date().toISOString(),
+      options,
+      files: entries.map((entry) => entry.summary),
+    };
+    const jsonPath = `${target.fsPath.replace(/\.html?$/i, '')}.json`;
+
+    await FileService.writeFile(
+      target.fsPath,
+      Buffer.from(WebviewContentGenerator.getReportContent(summary, entries))
+    );
+    await FileService.writeFile(
+      jsonPath,
+      Buffer.from(JSON.stringify(summary, null, 2))
+    );
+    vscode.window.showInformationMessage(
+      `Saved ${path.basename(target.fsPath)} and ${path.basename(jsonPath)}`
+    );
+  }
+
+  private static summarize(
+    currentPath: string,
+    previousPath: string,
+    previousRevision: string,
+    currentRevision: string,
+    status: string,
+    diff: DiffResult | null
+  ): ReportFileSummary {
+    return {
+      path: vscode.workspace.asRelativePath(currentPath),
+      previousPath: vscode.workspace.asRelativePath(previousPath),
+      previousRevision,
+      currentRevision,
+      status,
+      previousSize: diff && diff.previousSize,
+      currentSize: diff && diff.currentSize,
+      mismatch: diff && diff.mismatch,
+      mismatchPercentage: diff && diff.mismatchPercentage,
+      regions: diff ? diff.regions : [],
+      metrics: diff && diff.metrics,
+    };
+  }
+}
+
+class DiffViewerService {
+  /** Versions kept in memory: the displayed pair and its neighbours. */
+  private static readonly CACHED_VERSIONS = 4;
+
+  static openDiffViewer(context: vscode.ExtensionContext, data: ImageDiffData) {
+    const previousPath = data.previousPath || data.currentPath;
+    const panel = this.createWebviewPanel(
+      `Image Diff - ${path.basename(data.currentPath)}`,
+      context,
+      [path.dirname(data.currentPath), path.dirname(previousPath)]
+    );
+
+    this.showDiff(panel, context, {
+      currentPath: data.currentPath,
+      previousPath,
+      currentData: data.currentData,
+      previousData: data.previousData,
+      currentLabel: data.currentLabel,
+      previousLabel: data.previousLabel,
+    });
+  }
+
+  static openTwoFilesDiffViewer(
+    context: vscode.ExtensionContext,
+    options: {
+      leftPath: string;
+      rightPath: string;
+      leftData: Buffer;
+      rightData: Buffer;
+      title?: string;
+    }
+  ) {
+    const { leftPath, rightPath, leftData, rightData, title } = options;
+    // Images of the same name are told apart by their path.
+    const [leftLabel, rightLabel] =
+      path.basename(leftPath) === path.basename(rightPath)
+        ? [leftPath, rightPath].map((filePath) =>
+            vscode.workspace.asRelativePath(filePath)
+          )
+        : [leftPath, rightPath].map((filePath) => path.basename(filePath));
+
+    const panel = this.createWebviewPanel(
+      title ||
+        `Image Diff - ${path.basename(leftPath)} ↔ ${path.basename(rightPath)}`,
+      context,
+      [path.dirname(leftPath), path.dirname(rightPath)]
+    );
+
+    this.showDiff(panel, context, {
+      currentPath: rightPath,
+      previousPath: leftPath,
+      currentData: rightData,
+      previousData: leftData,
+      currentLabel: rightLabel,
+      previousLabel: leftLabel,
+    });
+  }
+
+  /**
+   * Opens a comparison between two of the HEAD, index and working tree
+   * versions of a file, with a switcher to pick any other pair. Files that
+   * were added or deleted are shown one-sided.
+   */
+  static openScmDiffViewer(
+    context: vscode.ExtensionContext,
+    options: {
+      filePath: string;
+      versions: ScmVersions;
+      previous: ScmVersion;
+      current: ScmVersion;
+    }
+  ) {
+    const { filePath, versions } = options;
+
+    const panel = this.createWebviewPanel(
+      `Image Diff - ${path.basename(filePath)}`,
+      context,
+      [path.dirname(filePath)]
+    );
+
+    const load = (previous: string, current: string): DiffViewContent => {
+      const previousData = versions[previous as ScmVersion] || null;
+      const currentData = versions[current as ScmVersion] || null;
+      return {
+        currentPath: filePath,
+        previousPath: filePath,
+        currentData,
+        previousData,
+        currentLabel: SCM_VERSION_LABELS[current as ScmVersion] || current,
+        previousLabel: SCM_VERSION_LABELS[previous as ScmVersion] || previous,
+        currentVersion: current,
+        previousVersion: previous,
+      };
+    };
+
+    this.showDiff(panel, context, load(options.previous, options.current), {
+      available: (Object.keys(SCM_VERSION_LABELS) as ScmVersion[])
+        .filter((version) => versions[version])
+        .map((version) => ({
+          value: version,
+          label: SCM_VERSION_LABELS[version],
+        })),
+      load,
+    });
+  }
+
+  /**
+   * Compares the working tree with a commit from the file's history, and lets
+   * the user step through the rest of it. Versions are read lazily and the
+   * neighbours of the shown pair are prefetched.
+   */
+  static openHistoryViewer(
+    context: vscode.ExtensionContext,
+    options: {
+      filePath: string;
+      workspaceRoot: string;
+      /** Commits touching the file, newest first, as from `getFileHistory`. */
+      history: GitCommitInfo[];
+      currentData: Buffer;
+      previous: string;
+    }
+  ) {
+    const { filePath, workspaceRoot, history, currentData } = options;
+    const relativePath = path
+      .relative(workspaceRoot, filePath)
+      .replace(/\\/g, '/');
+
+    const panel = this.createWebviewPanel(
+      `Image Diff - ${path.basename(filePath)}`,
+      context,
+      [path.dirname(filePath)]
+    );
+
+    const available: VersionOption[] = [
+      { value: 'workingTree', label: 'Current' },
+      ...history.map((commit) => ({
+        value: commit.hash,
+        label:
+          commit.filePath !== relativePath
+            ? `${commit.shortHash} (${commit.filePath})`
+            : commit.shortHash,
+        commit,
+      })),
+    ];
+    const fetch = (version: string) => {
+      const option = available.find((item) => item.value === version);
+      if (!option) return Promise.resolve(null);
+
+      return option.commit
+        ? GitService.getVersion({
+            filePath: path.join(workspaceRoot, option.commit.filePath),
+            revision: option.commit.hash,
+            workspaceRoot,
+          }).catch((error) => {
+            console.error(`Cannot read version '${version}':`, error);
+            return null;
+          })
+        : Promise.resolve(currentData);
+    };
+
+    // Least recently used first, as a Map keeps insertion order.
+    const blobs = new Map<string, Promise<Buffer | null>>();
+    const read = (version: string) => {
+      const blob = blobs.get(version) || fetch(version);
+      blobs.delete(version);
+      blobs.set(version, blob);
+      if (blobs.size > this.CACHED_VERSIONS) {
+        blobs.delete(blobs.keys().next().value as string);
+      }
+      return blob;
+    };
+
+    const load = async (
+      previous: string,
+      current: string
+    ): Promise<DiffViewContent> => {
+      const [previousData, currentData] = await Promise.all([
+        read(previous),
+        read(current),
+      ]);
+      const label = (version: string) =>
+        available.find((item) => item.value === version)?.label || version;
+
+      // Prefetch the versions one step older and newer.
+      const index = available.findIndex((item) => item.value === previous);
+      [index + 1, index - 2].forEach((neighbour) => {
+        if (available[neighbour]) read(available[neighbour].value);
       });
+
+      return {
+        currentPath: filePath,
+        previousPath: filePath,
+        currentData,
+        previousData,
+        currentLabel: label(current),
+        previousLabel: label(previous),
+        currentVersion: current,
+        previousVersion: previous,
+      };
+    };
+
+    load(options.previous, 'workingTree').then((content) =>
+      this.showDiff(panel, context, content, {
+        available,
+        load,
+        history: {
+          // Filmstrip versions are read once for their thumbnail and not
+          // cached, so a long history does not stay in memory.
+          thumbnail: async (version) => {
+            const data = await (blobs.get(version) || fetch(version));
+            try {
+              return data
+                ? await DiffWorkerPool.run('createThumbnail', [data, 72])
+                : null;
+            } catch (error) {
+              return null;
+            }
+          },
+        },
+      })
+    );
+  }
+
+  /**
+   * Picks the pair of versions one step older or newer in a history, or the
+   * pair ending at the version selected in the filmstrip.
+   */
+  private static getHistoryStep(
+    available: VersionOption[],
+    content: DiffViewContent,
+    step: { direction?: 'older' | 'newer'; version?: string }
+  ): [string, string] | null {
+    const values = available.map((item) => item.value);
+    let previous = values.indexOf(content.previousVersion || '');
+    let current = values.indexOf(content.currentVersion || '');
+
+    if (step.version !== undefined) {
+      previous = Math.max(values.indexOf(step.version), 1);
+      current = previous - 1;
+    } else if (step.direction === 'older') {
+      current = previous;
+      previous++;
+    } else {
+      previous = current;
+      current--;
+    }
+
+    return current >= 0 && previous < values.length && previous > current
+      ? [values[previous], values[current]]
+      : null;
+  }
+
+  /**
+   * Shows a gallery of every image in a batch comparison. Selecting an entry
+   * opens it in the full diff viewer.
+   */
+  static openBatchViewer(
+    context: vscode.ExtensionContext,
+    report: BatchDiffReport
+  ) {
+    const { workspaceRoot, from, to, entries } = report;
+
+    const panel = this.createWebviewPanel(
+      `Image Diff - ${this.shortRef(from)}..${this.shortRef(to)}`,
+      context,
+      [workspaceRoot]
+    );
+    panel.webview.html = WebviewContentGenerator.getBatchViewerContent({
+      from: this.shortRef(from),
+      to: this.shortRef(to),
+      entries,
+      security: getWebviewSecurity(panel.webview),
+    });
+
+    panel.webview.onDidReceiveMessage(
+      (message) => {
+        if (message.command === 'saveReport') {
+          ExportService.exportBatchReport(report);
+          return;
+        }
+        if (message.command !== 'openEntry') return;
+
+        const entry = entries[message.index];
+        if (!entry) return;
+        if (entry.error) {
+          vscode.window.showErrorMessage(`Cannot open image: ${entry.error}`);
+          return;
+        }
+
+        this.openDiffViewer(context, {
+          currentPath: path.join(workspaceRoot, entry.file.path),
+          previousPath: path.join(workspaceRoot, entry.file.oldPath),
+          currentData: entry.currentData,
+          previousData: entry.previousData,
+          currentLabel: this.shortRef(to),
+          previousLabel:
+            entry.file.oldPath !== entry.file.path
+              ? `${this.shortRef(from)} (${entry.file.oldPath})`
+              : this.shortRef(from),
+        });
+      },
+      undefined,
+      context.subscriptions
+    );
+  }
+
+  private static shortRef(ref: string): string {
+    return /^[0-9a-f]{40}$/i.test(ref) ? ref.slice(0, 7) : ref;
+  }
+
+  /**
+   * Shows the base, ours and theirs versions of a conflicted image with both
+   * sides diffed against the base, and resolves the conflict by writing and
+   * staging the chosen version.
+   */
+  static openConflictViewer(
+    context: vscode.ExtensionContext,
+    options: {
+      filePath: string;
+      workspaceRoot: string;
+      versions: ConflictVersions;
+    }
+  ) {
+    const { filePath, workspaceRoot, versions } = options;
+    const { base, ours, theirs } = versions;
+    const diffOptions = {
+      ...ConfigurationService.getDiffOptions(),
+      ignoreRegions: ConfigurationService.getIgnoreRegions(
+        workspaceRoot,
+        filePath
+      ),
+    };
+
+    const panel = this.createWebviewPanel(
+      `Image Conflict - ${path.basename(filePath)}`,
+      context,
+      [path.dirname(filePath)]
+    );
+    // The diffs run in workers and stop when the panel closes.
+    const lifetime = new vscode.CancellationTokenSource();
+    const { token } = lifetime;
+    panel.onDidDispose(() => lifetime.cancel());
+
+    const compare = async (
+      label: string,
+      current: Buffer | null,
+      previous: Buffer | null
+    ): Promise<ConflictDiff> => {
+      const diff =
+        current && previous
+          ? await DiffWorkerPool.run(
+              'generate',
+              [current, previous, diffOptions],
+              { token }
+            )
+          : null;
+      const [served] = await this.serveDiffImages(panel.webview, diff, null);
+      return { label, diff: served };
+    };
+    const image = (data: Buffer | null) =>
+      data && ImageResourceService.getImageUri(panel.webview, data, filePath);
+
+    // Without a common base, compare the two sides directly.
+    Promise.all([
+      Promise.all(
+        base
+          ? [
+              compare('Ours vs Base', ours, base),
+              compare('Theirs vs Base', theirs, base),
+            ]
+          : [compare('Theirs vs Ours', theirs, ours)]
+      ),
+      image(base),
+      image(ours),
+      image(theirs),
+    ]).then(
+      ([diffs, baseImage, oursImage, theirsImage]) => {
+        if (token.isCancellationRequested) return;
+
+        panel.webview.html = WebviewContentGenerator.getConflictViewerContent({
+          filePath,
+          images: { base: baseImage, ours: oursImage, theirs: theirsImage },
+          diffs,
+          security: getWebviewSecurity(panel.webview),
+        });
+      },
+      (error) => {
+        if (!(error instanceof CancelledError)) {
+          vscode.window.showErrorMessage(`Error comparing images: ${error}`);
+        }
+      }
+    );
+
+    panel.webview.onDidReceiveMessage(
+      async (message) => {
+        if (message.command !== 'takeVersion') return;
+
+        const stage = message.stage as ConflictStage;
+        const data = versions[stage];
+        if (!data) return;
+
+        try {
+          await FileService.writeFile(filePath, data);
+          await GitService.stageFile(filePath, workspaceRoot);
+          vscode.window.showInformationMessage(
+            `Resolved ${path.basename(filePath)} with ${
+              CONFLICT_STAGES[stage].label
+            } and staged it`
+          );
+          panel.dispose();
+        } catch (error) {
+          vscode.window.showErrorMessage(`Error resolving conflict: ${error}`);
+        }
+      },
+      undefined,
+      context.subscriptions
+    );
+  }
+
+  private static showDiff(
+    panel: vscode.WebviewPanel,
+    context: vscode.ExtensionContext,
+    options: DiffViewContent,
+    versions?: VersionSource
+  ) {
+    let content = options;
+    let diffOptions = ConfigurationService.getDiffOptions();
+    const mismatchBudget = ConfigurationService.getMismatchBudget();
+    // Aligned pixels of the frame under inspection, kept for the pixel
+    // inspector and dropped whenever the diff options change.
+    let aligned: {
+      frame: number;
+      images: Promise<AlignedImages | null>;
+    } | null = null;
+    // Filmstrip thumbnails of a history, filled in the background.
+    const thumbnails = new Map<string, string>();
+    // Where the ignore regions of the shown image are saved, and the ones
+    // applying to it.
+    let ignore: { root: string; pattern: string; regions: IgnoreRegion[] } = {
+      root: '',
+      pattern: '',
+      regions: [],
+    };
+    let disposed = false;
+    // Diffs run in workers. Each is cancelled when a newer one replaces it,
+    // and all of them when the panel closes.
+    let rendering = new vscode.CancellationTokenSource();
+    let updating = new vscode.CancellationTokenSource();
+    const lifetime = new vscode.CancellationTokenSource();
+    // Bands of the diff being rendered, replayed once the progress page has
+    // loaded and can draw them.
+    let progress: { tiles: DiffTile[]; ready: boolean } | null = null;
+    panel.onDidDispose(() => {
+      disposed = true;
+      [rendering, updating, lifetime].forEach((source) => source.cancel());
     });
+
+    const generate = async (
+      currentData: Buffer,
+      previousData: Buffer,
+      token: vscode.CancellationToken,
+      onTile?: (tile: DiffTile) => void
+    ) => {
+      const [diff, animation] = await Promise.all([
+        DiffWorkerPool.run(
+          'generate',
+          [currentData, previousData, diffOptions],
+          { onTile, token }
+        ),
+        DiffWorkerPool.run(
+          'generateAnimation',
+          [currentData, previousData, diffOptions],
+          { token }
+        ),
+      ]);
+      return this.serveDiffImages(panel.webview, diff, animation);
+    };
+
+    const render = async () => {
+      // An update of the options for the previous pair is no longer wanted.
+      [rendering, updating].forEach((source) => source.cancel());
+      rendering = new vscode.CancellationTokenSource();
+      const { token } = rendering;
+      const { currentData, previousData } = content;
+      const { webview } = panel;
+      const versionSelector = versions
+        ? WebviewContentGenerator.getVersionSelector(
+            versions.available,
+            content
+          )
+        : '';
+      const getHistoryBar = (security: WebviewSecurity) =>
+        versions?.history
+          ? WebviewContentGenerator.getHistoryBar(
+              versions.available,
+              content,
+              thumbnails,
+              security.nonce
+            )
+          : '';
+
+      if (!currentData || !previousData) {
+        const security = getWebviewSecurity(webview);
+        const image = currentData
+          ? await ImageResourceService.getImageUri(
+              webview,
+              currentData,
+              content.currentPath
+            )
+          : previousData
+          ? await ImageResourceService.getImageUri(
+              webview,
+              previousData,
+              content.previousPath
+            )
+          : '';
+        webview.html = WebviewContentGenerator.getSingleVersionContent(
+          content,
+          image,
+          security,
+          versionSelector,
+          getHistoryBar(security)
+        );
+        return;
+      }
+
+      const root = await RepositoryService.getIgnoreRegionRoot(
+        content.currentPath
+      );
+      ignore = {
+        root,
+        pattern: IgnoreRegionService.getPattern(root, content.currentPath),
+        regions: ConfigurationService.getIgnoreRegions(
+          root,
+          content.currentPath
+        ),
+      };
+      diffOptions = { ...diffOptions, ignoreRegions: ignore.regions };
+
+      const progressSecurity = getWebviewSecurity(webview);
+      const tiles = { tiles: [] as DiffTile[], ready: false };
+      progress = tiles;
+      webview.html = WebviewContentGenerator.getDiffProgressContent({
+        currentLabel: content.currentLabel,
+        previousLabel: content.previousLabel,
+        historyBar: getHistoryBar(progressSecurity),
+        security: progressSecurity,
+      });
+
+      const [[diff, animation], currentImage, previousImage] =
+        await Promise.all([
+          generate(currentData, previousData, token, (tile) => {
+            tiles.tiles.push(tile);
+            if (tiles.ready) {
+              webview.postMessage({ command: 'diffTile', tile });
+            }
+          }),
+          ImageResourceService.getImageUri(
+            webview,
+            currentData,
+            content.currentPath
+          ),
+          ImageResourceService.getImageUri(
+            webview,
+            previousData,
+            content.previousPath
+          ),
+        ]);
+      const security = getWebviewSecurity(webview);
+      progress = null;
+      webview.html = WebviewContentGenerator.getDiffViewerContent({
+        currentImage,
+        previousImage,
+        diff,
+        animation,
+        diffOptions,
+        mismatchBudget,
+        ignoreRegions: ignore.regions,
+        ignorePattern: ignore.pattern,
+        currentLabel: content.currentLabel,
+        previousLabel: content.previousLabel,
+        versionSelector,
+        historyBar: getHistoryBar(security),
+        security,
+      });
+    };
+
+    /** Ignores work cancelled by a newer request or a closed panel. */
+    const reportError = (error: unknown) => {
+      if (!(error instanceof CancelledError)) {
+        vscode.window.showErrorMessage(`Error comparing images: ${error}`);
+      }
+    };
+
+    render().catch(reportError);
+
+    // Filmstrip thumbnails are made one at a time, as frames scroll into
+    // view, so that opening a long history does not read every version.
+    const requestedThumbnails = new Set<string>();
+    let thumbnailQueue = Promise.resolve();
+    const loadThumbnail = (version: string) => {
+      if (!versions?.history || requestedThumbnails.has(version)) return;
+
+      const { thumbnail } = versions.history;
+      requestedThumbnails.add(version);
+      thumbnailQueue = thumbnailQueue.then(async () => {
+        if (disposed) return;
+        const src = await thumbnail(version);
+        if (!src || disposed) return;
+
+        thumbnails.set(version, src);
+        panel.webview.postMessage({
+          command: 'historyThumbnail',
+          version,
+          src,
+        });
+      });
+      thumbnailQueue = thumbnailQueue.catch((error) =>
+        console.error(`Cannot create thumbnail of '${version}':`, error)
+      );
+    };
+
+    panel.webview.onDidReceiveMessage(
+      async (message) => {
+        const { currentData, previousData } = content;
+
+        if (message.command === 'loadThumbnail') {
+          loadThumbnail(message.version);
+        } else if (message.command === 'progressReady' && progress) {
+          progress.ready = true;
+          progress.tiles.forEach((tile) =>
+            panel.webview.postMessage({ command: 'diffTile', tile })
+          );
+        } else if (message.command === 'selectVersions' && versions) {
+          content = await versions.load(message.previous, message.current);
+          aligned = null;
+          await render().catch(reportError);
+        } else if (message.command === 'stepHistory' && versions) {
+          const step = this.getHistoryStep(
+            versions.available,
+            content,
+            message
+          );
+          if (!step) return;
+
+          content = await versions.load(...step);
+          aligned = null;
+          await render().catch(reportError);
+        } else if (!currentData || !previousData) {
+          return;
+        } else if (
+          message.command === 'updateDiffOptions' ||
+          message.command === 'updateIgnoreRegions'
+        ) {
+          if (message.command === 'updateIgnoreRegions') {
+            try {
+              ignore.regions = IgnoreRegionService.saveRegions(
+                ignore.root,
+                content.currentPath,
+                message.regions
+              );
+            } catch (error) {
+              vscode.window.showErrorMessage(
+                `Error saving ignore regions: ${error}`
+              );
+            }
+            diffOptions = { ...diffOptions, ignoreRegions: ignore.regions };
+          } else {
+            diffOptions = { ...diffOptions, ...message.options };
+          }
+          aligned = null;
+          updating.cancel();
+          updating = new vscode.CancellationTokenSource();
+          // The versions shown may change while the diff runs.
+          const pair = content;
+
+          let diff: DiffResult | null;
+          let animation: AnimationDiff | null;
+          try {
+            [diff, animation] = await generate(
+              currentData,
+              previousData,
+              updating.token,
+              (tile) => {
+                if (content !== pair) return;
+                panel.webview.postMessage({
+                  command: 'diffProgress',
+                  requestId: message.requestId,
+                  progress: tile.progress,
+                });
+              }
+            );
+          } catch (error) {
+            reportError(error);
+            return;
+          }
+          if (content !== pair) return;
+
+          panel.webview.postMessage({
+            command: 'diffUpdated',
+            requestId: message.requestId,
+            diff,
+            animation,
+            statistics: diff
+              ? WebviewContentGenerator.getDiffStatistics(diff, mismatchBudget)
+              : '',
+            regionBoxes: diff
+              ? WebviewContentGenerator.getRegionBoxes(diff)
+              : '',
+            ignoreBoxes: diff
+              ? WebviewContentGenerator.getIgnoreBoxes(
+                  diff,
+                  ignore.regions,
+                  ignore.pattern
+                )
+              : '',
+            ignoreRegions: ignore.regions,
+            alignmentNotice: diff
+              ? WebviewContentGenerator.getAlignmentNotice(diff)
+              : '',
+            timeline: animation
+              ? WebviewContentGenerator.getAnimationTimeline(animation)
+              : '',
+          });
+        } else if (message.command === 'export') {
+          await ExportService.exportComparison(
+            message.format,
+            content,
+            currentData,
+            previousData,
+            diffOptions
+          );
+        } else if (message.command === 'inspectPixel') {
+          if (!aligned || aligned.frame !== message.frame) {
+            aligned = {
+              frame: message.frame,
+              images: DiffWorkerPool.run(
+                'alignFrame',
+                [currentData, previousData, diffOptions, message.frame],
+                { token: lifetime.token }
+              ).catch((error) => {
+                reportError(error);
+                return null;
+              }),
+            };
+          }
+          const images = await aligned.images;
+
+          panel.webview.postMessage({
+            command: 'pixelInspected',
+            inspection: images
+              ? DiffImageGenerator.inspectPixel(images, message.x, message.y)
+              : null,
+          });
+        }
+      },
+      undefined,
+      context.subscriptions
+    );
+  }
+
+  /**
+   * Replaces the data URLs of a diff and its animation frames with resource
+   * URIs, so the pages and messages sent to the webview stay small.
+   */
+  private static async serveDiffImages(
+    webview: vscode.Webview,
+    diff: DiffResult | null,
+    animation: AnimationDiff | null
+  ): Promise<[DiffResult | null, AnimationDiff | null]> {
+    const serve = async (dataUrl: string | null) =>
+      dataUrl && ImageResourceService.getDataUrlUri(webview, dataUrl);
+
+    return Promise.all([
+      diff && {
+        ...diff,
+        diffImage: await ImageResourceService.getDataUrlUri(
+          webview,
+          diff.diffImage
+        ),
+        ssimImage: await ImageResourceService.getDataUrlUri(
+          webview,
+          diff.ssimImage
+        ),
+      },
+      animation && {
+        ...animation,
+        frames: await Promise.all(
+          animation.frames.map(async (frame) => ({
+            ...frame,
+            currentImage: await serve(frame.currentImage),
+            previousImage: await serve(frame.previousImage),
+            diffImage: await serve(frame.diffImage),
+          }))
+        ),
+      },
+    ]);
   }
 
   private static createWebviewPanel(
@@ -350,74 +1944,2493 @@ class DiffViewerService {
         enableScripts: true,
         localResourceRoots: [
           ...localResourceRoots.map((root) => vscode.Uri.file(root)),
+          ImageResourceService.getStoreUri(),
           context.extensionUri,
         ],
       }
     );
   }
-}
+}
+
+class DiffToolService {
+  /** How long to wait for the other side of a diff editor to open. */
+  private static readonly PAIRING_WINDOW = 500;
+  private static readonly pending = new Map<
+    string,
+    { uri: vscode.Uri; timer: NodeJS.Timeout }
+  >();
+
+  /**
+   * Called for every image opened in the preview editor. VS Code opens image
+   * diffs from Source Control, the timeline and `git.openChange` as two
+   * custom editors side by side, so two documents for the same file that
+   * arrive together, at least one of them from Git, are treated as a diff and
+   * reopened in the diff viewer.
+   */
+  static track(context: vscode.ExtensionContext, uri: vscode.Uri) {
+    if (!ConfigurationService.isDefaultDiffTool()) return;
+
+    const key = uri.fsPath;
+    const other = this.pending.get(key);
+
+    if (!other || other.uri.toString() === uri.toString()) {
+      if (other) clearTimeout(other.timer);
+      this.pending.set(key, {
+        uri,
+        timer: setTimeout(() => this.pending.delete(key), this.PAIRING_WINDOW),
+      });
+      return;
+    }
+
+    clearTimeout(other.timer);
+    this.pending.delete(key);
+
+    if (uri.scheme === 'file' && other.uri.scheme === 'file') return;
+    this.openPair(context, other.uri, uri);
+  }
+
+  private static async openPair(
+    context: vscode.ExtensionContext,
+    first: vscode.Uri,
+    second: vscode.Uri
+  ) {
+    try {
+      const [previous, current] = await this.orderVersions(first, second);
+      const [previousData, currentData] = await Promise.all([
+        FileService.readUri(previous),
+        FileService.readUri(current),
+      ]);
+
+      await this.closeDiffTab(first, second);
+
+      DiffViewerService.openDiffViewer(context, {
+        currentPath: current.fsPath,
+        currentData,
+        previousData,
+        currentLabel: this.getVersionLabel(current),
+        previousLabel: this.getVersionLabel(previous),
+      });
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error opening image diff: ${error}`);
+    }
+  }
+
+  /**
+   * Closes the tab VS Code opened for the pair. The reads above take a
+   * while, so the active editor may no longer be that tab. Depending on the
+   * version, the pair shows up as a diff input or as a custom editor input
+   * for each side. Tabs are matched on the Git side, as the working tree
+   * side alone may be a preview the user opened.
+   */
+  private static async closeDiffTab(a: vscode.Uri, b: vscode.Uri) {
+    const gitUris = [a, b]
+      .filter((uri) => uri.scheme !== 'file')
+      .map((uri) => uri.toString());
+    const tabs = vscode.window.tabGroups.all
+      .flatMap((group) => group.tabs)
+      .filter(({ input }) =>
+        input instanceof vscode.TabInputTextDiff
+          ? gitUris.includes(input.original.toString()) ||
+            gitUris.includes(input.modified.toString())
+          : input instanceof vscode.TabInputCustom &&
+            input.viewType === 'imageDiff.imagePreview' &&
+            gitUris.includes(input.uri.toString())
+      );
+    if (tabs.length) {
+      await vscode.window.tabGroups.close(tabs);
+    }
+  }
+
+  /**
+   * Sorts two versions of a file from oldest to newest: commits by commit
+   * time, then the index, then the working tree.
+   */
+  private static async orderVersions(
+    a: vscode.Uri,
+    b: vscode.Uri
+  ): Promise<[vscode.Uri, vscode.Uri]> {
+    const rank = (uri: vscode.Uri) => {
+      if (uri.scheme === 'file') return 2;
+      return this.isIndexRef(this.getGitRef(uri)) ? 1 : 0;
+    };
+
+    if (rank(a) !== rank(b)) {
+      return rank(a) < rank(b) ? [a, b] : [b, a];
+    }
+
+    const refA = this.getGitRef(a);
+    const refB = this.getGitRef(b);
+    if (rank(a) === 0 && refA && refB) {
+      const cwd =
+        (await RepositoryService.getRepositoryRoot(a)) ||
+        path.dirname(a.fsPath);
+      const [timeA, timeB] = await Promise.all([
+        GitService.getCommitTime(refA, cwd),
+        GitService.getCommitTime(refB, cwd),
+      ]);
+      if (timeA !== null && timeB !== null && timeA > timeB) {
+        return [b, a];
+      }
+    }
+    return [a, b];
+  }
+
+  private static getVersionLabel(uri: vscode.Uri): string {
+    if (uri.scheme === 'file') return 'Working Tree';
+
+    const ref = this.getGitRef(uri);
+    if (ref === null) return uri.scheme;
+    if (this.isIndexRef(ref)) return 'Index';
+    return /^[0-9a-f]{40}$/i.test(ref) ? ref.slice(0, 7) : ref;
+  }
+
+  /** Reads the revision from a Git extension URI (`git:/path?{"ref":...}`). */
+  private static getGitRef(uri: vscode.Uri): string | null {
+    try {
+      const { ref } = JSON.parse(uri.query);
+      return typeof ref === 'string' ? ref : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** The Git extension uses `~` and an empty ref for the staged version. */
+  private static isIndexRef(ref: string | null): boolean {
+    return ref === '' || ref === '~';
+  }
+}
+
+class ImagePreviewEditorProvider
+  implements vscode.CustomReadonlyEditorProvider
+{
+  private readonly RELOAD_DELAY = 100;
+  private readonly RECENT_COMMITS = 10;
+
+  constructor(private readonly context: vscode.ExtensionContext) {}
+
+  async openCustomDocument(
+    uri: vscode.Uri,
+    openContext: vscode.CustomDocumentOpenContext,
+    token: vscode.CancellationToken
+  ): Promise<vscode.CustomDocument> {
+    return { uri, dispose: () => {} };
+  }
+
+  async resolveCustomEditor(
+    document: vscode.CustomDocument,
+    webviewPanel: vscode.WebviewPanel,
+    token: vscode.CancellationToken
+  ): Promise<void> {
+    webviewPanel.webview.options = {
+      enableScripts: true,
+      localResourceRoots: [
+        vscode.Uri.file(path.dirname(document.uri.fsPath)),
+        ImageResourceService.getStoreUri(),
+        this.context.extensionUri,
+      ],
+    };
+
+    DiffToolService.track(this.context, document.uri);
+
+    const { webview } = webviewPanel;
+    const filePath = document.uri.fsPath;
+    const isFile = document.uri.scheme === 'file';
+
+    // Files are served as they are, with a version in the query so that the
+    // webview reloads them after a change; other schemes, such as `git:`, are
+    // read through their provider and served from the image store.
+    const load = async () => {
+      const data = await FileService.readUri(document.uri);
+      const imageUri = isFile
+        ? webview
+            .asWebviewUri(document.uri)
+            .with({ query: `version=${Date.now()}` })
+            .toString()
+        : await ImageResourceService.getImageUri(webview, data, filePath);
+      return {
+        imageUri,
+        info: WebviewContentGenerator.getImageInfo(
+          ImageDecoder.readInfo(data, filePath),
+          data.length
+        ),
+      };
+    };
+
+    const { imageUri, info } = await load();
+    webview.html = WebviewContentGenerator.getImagePreviewContent(
+      imageUri,
+      filePath,
+      info,
+      getWebviewSecurity(webview)
+    );
+
+    if (isFile) {
+      this.watch(webviewPanel, filePath, load);
+      this.loadRecentCommits(webviewPanel, document.uri).catch((error) =>
+        console.error(`Cannot list commits of '${filePath}':`, error)
+      );
+    }
+
+    webviewPanel.webview.onDidReceiveMessage(
+      async (message) => {
+        if (message.command === 'openDiff') {
+          await vscode.commands.executeCommand(
+            'imageDiff.compareWithPrevious',
+            document.uri
+          );
+        } else if (message.command === 'compareWithCommit') {
+          try {
+            const workspaceRoot = await RepositoryService.getRepositoryRoot(
+              document.uri
+            );
+            if (!workspaceRoot) return;
+
+            const [history, currentData] = await Promise.all([
+              GitService.getFileHistory(filePath, workspaceRoot),
+              FileService.readFile(filePath),
+            ]);
+            DiffViewerService.openHistoryViewer(this.context, {
+              filePath,
+              workspaceRoot,
+              history,
+              currentData,
+              previous: message.revision,
+            });
+          } catch (error) {
+            showGitError(error);
+          }
+        }
+      },
+      undefined,
+      this.context.subscriptions
+    );
+  }
+
+  /** Reloads the preview whenever the file changes on disk. */
+  private watch(
+    webviewPanel: vscode.WebviewPanel,
+    filePath: string,
+    load: () => Promise<{ imageUri: string; info: string }>
+  ) {
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(
+        vscode.Uri.file(path.dirname(filePath)),
+        path.basename(filePath)
+      )
+    );
+    let timer: NodeJS.Timeout | undefined;
+
+    // Editors often write a file in several steps; wait for the last one.
+    const reload = () => {
+      clearTimeout(timer);
+      timer = setTimeout(async () => {
+        try {
+          const { imageUri, info } = await load();
+          webviewPanel.webview.postMessage({
+            command: 'imageChanged',
+            imageUri,
+            info,
+          });
+        } catch (error) {
+          console.error(`Cannot reload '${filePath}':`, error);
+        }
+      }, this.RELOAD_DELAY);
+    };
+
+    watcher.onDidChange(reload);
+    watcher.onDidCreate(reload);
+    watcher.onDidDelete(() => {
+      clearTimeout(timer);
+      webviewPanel.webview.postMessage({ command: 'imageDeleted' });
+    });
+    webviewPanel.onDidDispose(() => {
+      clearTimeout(timer);
+      watcher.dispose();
+    });
+  }
+
+  /** Fills the dropdown of commits to compare the file with. */
+  private async loadRecentCommits(
+    webviewPanel: vscode.WebviewPanel,
+    uri: vscode.Uri
+  ) {
+    const workspaceRoot = await RepositoryService.getRepositoryRoot(uri);
+    if (!workspaceRoot) return;
+
+    const history = await GitService.getFileHistory(uri.fsPath, workspaceRoot);
+    if (!history.length) return;
+
+    webviewPanel.webview.postMessage({
+      command: 'recentCommits',
+      options: WebviewContentGenerator.getRecentCommitOptions(
+        history.slice(0, this.RECENT_COMMITS)
+      ),
+    });
+  }
+}
+
+class WebviewContentGenerator {
+  static getImagePreviewContent(
+    imageUri: string,
+    filePath: string,
+    info: string,
+    security: WebviewSecurity
+  ): string {
+    return `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+          <meta charset="UTF-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          ${this.getSecurityHeader(security)}
+          <title>Image Preview</title>
+          <style>
+              body {
+                  font-family: var(--vscode-font-family);
+                  margin: 0;
+                  padding: 0;
+                  background-color: var(--vscode-editor-background);
+                  color: var(--vscode-foreground);
+                  height: 100vh;
+                  overflow: hidden;
+                  display: flex;
+                  flex-direction: column;
+              }
+              
+              .header {
+                  padding: 8px 12px;
+                  background-color: var(--vscode-titleBar-activeBackground);
+                  border-bottom: 1px solid var(--vscode-panel-border);
+                  display: flex;
+                  align-items: center;
+                  gap: 12px;
+                  flex-wrap: wrap;
+              }
+              
+              .title {
+                  font-size: 12px;
+                  color: var(--vscode-descriptionForeground);
+              }
+              
+              .image-info {
+                  display: flex;
+                  gap: 8px;
+                  font-size: 11px;
+                  color: var(--vscode-descriptionForeground);
+              }
+              
+              .image-info span + span::before {
+                  content: '·';
+                  margin-right: 8px;
+              }
+              
+              .zoom-controls {
+                  margin-left: auto;
+                  display: flex;
+                  align-items: center;
+                  gap: 4px;
+              }
+              
+              .toolbar-button {
+                  padding: 4px 8px;
+                  background-color: var(--vscode-button-secondaryBackground);
+                  color: var(--vscode-button-secondaryForeground);
+                  border: 1px solid var(--vscode-button-border);
+                  border-radius: 2px;
+                  cursor: pointer;
+                  font-size: 11px;
+                  font-family: var(--vscode-font-family);
+              }
+              
+              .toolbar-button:hover {
+                  background-color: var(--vscode-button-secondaryHoverBackground);
+              }
+              
+              .toolbar-button.active {
+                  background-color: var(--vscode-button-background);
+                  color: var(--vscode-button-foreground);
+              }
+              
+              .zoom-label {
+                  min-width: 40px;
+                  text-align: right;
+                  font-size: 11px;
+                  color: var(--vscode-descriptionForeground);
+              }
+              
+              .commit-select {
+                  max-width: 240px;
+                  background-color: var(--vscode-dropdown-background);
+                  color: var(--vscode-dropdown-foreground);
+                  border: 1px solid var(--vscode-dropdown-border);
+                  font-size: 11px;
+                  font-family: var(--vscode-font-family);
+              }
+              
+              .diff-button {
+                  padding: 4px 8px;
+                  background-color: var(--vscode-button-background);
+                  color: var(--vscode-button-foreground);
+                  border: 1px solid var(--vscode-button-border);
+                  border-radius: 2px;
+                  cursor: pointer;
+                  font-size: 11px;
+                  font-family: var(--vscode-font-family);
+                  display: flex;
+                  align-items: center;
+                  gap: 4px;
+              }
+              
+              .diff-button:hover {
+                  background-color: var(--vscode-button-hoverBackground);
+              }
+              
+              .viewport {
+                  position: relative;
+                  flex: 1;
+                  overflow: hidden;
+                  cursor: grab;
+              }
+              
+              .viewport.panning {
+                  cursor: grabbing;
+              }
+              
+              .viewport.pixelated img {
+                  image-rendering: pixelated;
+              }
+              
+              .viewport img {
+                  position: absolute;
+                  top: 0;
+                  left: 0;
+                  max-width: none;
+                  max-height: none;
+                  transform-origin: 0 0;
+                  outline: 1px solid var(--vscode-widget-border);
+              }
+              
+              .viewport.checkerboard img {
+                  background: repeating-conic-gradient(#cccccc 0% 25%, #ffffff 0% 50%) 0 0 / 16px 16px;
+              }
+              
+              .notice {
+                  padding: 4px 12px;
+                  font-size: 11px;
+                  background-color: var(--vscode-inputValidation-warningBackground);
+                  border-bottom: 1px solid var(--vscode-inputValidation-warningBorder);
+              }
+              
+              .hidden { display: none !important; }
+          </style>
+      </head>
+      <body>
+          <div class="header">
+              <div class="title">${this.escapeHtml(
+                path.basename(filePath)
+              )}</div>
+              <div id="imageInfo" class="image-info">${info}</div>
+              <div class="zoom-controls">
+                  <button class="toolbar-button" data-action="fitView" title="Fit to window (0)">Fit</button>
+                  <button class="toolbar-button" data-action="setZoom" data-arg="1" title="Actual size (1)">100%</button>
+                  <button class="toolbar-button" data-action="zoomBy" data-arg="0.5" title="Zoom out (-)">−</button>
+                  <button class="toolbar-button" data-action="zoomBy" data-arg="2" title="Zoom in (+)">+</button>
+                  <span id="zoomLabel" class="zoom-label"></span>
+                  <button id="checkerboardBtn" class="toolbar-button active" data-action="toggleCheckerboard" title="Show transparency as a checkerboard">Checkerboard</button>
+              </div>
+              <select id="commitInput" class="commit-select hidden" title="Compare with a recent commit of this image">
+                  <option value="" selected>Compare with commit…</option>
+              </select>
+              <button class="diff-button" data-action="openDiff">
+                  <span>📊</span>
+                  <span>Compare with Previous</span>
+              </button>
+          </div>
+          <div id="deletedNotice" class="notice hidden">⚠ The file was deleted from disk</div>
+          
+          <div id="viewport" class="viewport checkerboard">
+              <img id="image" src="${imageUri}" alt="Image Preview">
+          </div>
+          
+          <script nonce="${security.nonce}">
+              const vscode = acquireVsCodeApi();
+              const MIN_ZOOM = 0.05;
+              const MAX_ZOOM = 64;
+              const viewport = document.getElementById('viewport');
+              const image = document.getElementById('image');
+              const view = { fit: true, scale: 1, centerX: 0, centerY: 0 };
+              let pan = null;
+              
+              function openDiff() {
+                  vscode.postMessage({ command: 'openDiff' });
+              }
+              
+              function getFitScale() {
+                  return Math.min(
+                      (viewport.clientWidth - 32) / (image.naturalWidth || 1),
+                      (viewport.clientHeight - 32) / (image.naturalHeight || 1),
+                      1
+                  );
+              }
+              
+              function getViewTransform() {
+                  const scale = view.fit ? getFitScale() : view.scale;
+                  const centerX = view.fit ? image.naturalWidth / 2 : view.centerX;
+                  const centerY = view.fit ? image.naturalHeight / 2 : view.centerY;
+                  return {
+                      scale,
+                      x: viewport.clientWidth / 2 - centerX * scale,
+                      y: viewport.clientHeight / 2 - centerY * scale,
+                  };
+              }
+              
+              function applyView() {
+                  const transform = getViewTransform();
+                  image.style.transform = \`translate(\${transform.x}px, \${transform.y}px) scale(\${transform.scale})\`;
+                  image.style.outlineWidth = 1 / transform.scale + 'px';
+                  viewport.classList.toggle('pixelated', transform.scale > 1);
+                  document.getElementById('zoomLabel').textContent = Math.round(transform.scale * 100) + '%';
+              }
+              
+              function setZoom(scale, clientX, clientY) {
+                  const transform = getViewTransform();
+                  const rect = viewport.getBoundingClientRect();
+                  const pointX = clientX === undefined ? rect.width / 2 : clientX - rect.left;
+                  const pointY = clientY === undefined ? rect.height / 2 : clientY - rect.top;
+                  const imageX = (pointX - transform.x) / transform.scale;
+                  const imageY = (pointY - transform.y) / transform.scale;
+                  const nextScale = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, scale));
+                  
+                  view.fit = false;
+                  view.scale = nextScale;
+                  view.centerX = imageX - (pointX - rect.width / 2) / nextScale;
+                  view.centerY = imageY - (pointY - rect.height / 2) / nextScale;
+                  applyView();
+              }
+              
+              function zoomBy(factor) {
+                  setZoom(getViewTransform().scale * factor);
+              }
+              
+              function fitView() {
+                  view.fit = true;
+                  applyView();
+              }
+              
+              function toggleCheckerboard() {
+                  const enabled = viewport.classList.toggle('checkerboard');
+                  document.getElementById('checkerboardBtn').classList.toggle('active', enabled);
+              }
+              
+              viewport.addEventListener('wheel', (e) => {
+                  e.preventDefault();
+                  setZoom(getViewTransform().scale * Math.exp(-e.deltaY * 0.0015), e.clientX, e.clientY);
+              }, { passive: false });
+              
+              viewport.addEventListener('mousedown', (e) => {
+                  if (e.button !== 0) return;
+                  
+                  const transform = getViewTransform();
+                  pan = {
+                      startX: e.clientX,
+                      startY: e.clientY,
+                      scale: transform.scale,
+                      centerX: (viewport.clientWidth / 2 - transform.x) / transform.scale,
+                      centerY: (viewport.clientHeight / 2 - transform.y) / transform.scale,
+                  };
+                  viewport.classList.add('panning');
+              });
+              
+              document.addEventListener('mousemove', (e) => {
+                  if (!pan) return;
+                  
+                  view.fit = false;
+                  view.scale = pan.scale;
+                  view.centerX = pan.centerX - (e.clientX - pan.startX) / pan.scale;
+                  view.centerY = pan.centerY - (e.clientY - pan.startY) / pan.scale;
+                  applyView();
+              });
+              
+              document.addEventListener('mouseup', () => {
+                  pan = null;
+                  viewport.classList.remove('panning');
+              });
+              
+              document.addEventListener('keydown', (e) => {
+                  if (e.target instanceof HTMLSelectElement) return;
+                  if (e.key === '0') fitView();
+                  else if (e.key === '1') setZoom(1);
+                  else if (e.key === '+' || e.key === '=') zoomBy(2);
+                  else if (e.key === '-') zoomBy(0.5);
+              });
+              
+              image.addEventListener('load', () => applyView());
+              image.addEventListener('dragstart', (e) => e.preventDefault());
+              window.addEventListener('resize', () => applyView());
+              
+              const commitInput = document.getElementById('commitInput');
+              commitInput.addEventListener('change', () => {
+                  if (!commitInput.value) return;
+                  vscode.postMessage({ command: 'compareWithCommit', revision: commitInput.value });
+                  commitInput.value = '';
+              });
+              
+              window.addEventListener('message', (event) => {
+                  const message = event.data;
+                  if (message.command === 'imageChanged') {
+                      // Keeps the zoom and position, as for an edit of the same image.
+                      image.src = message.imageUri;
+                      document.getElementById('imageInfo').innerHTML = message.info;
+                      document.getElementById('deletedNotice').classList.add('hidden');
+                  } else if (message.command === 'imageDeleted') {
+                      document.getElementById('deletedNotice').classList.remove('hidden');
+                  } else if (message.command === 'recentCommits') {
+                      commitInput.insertAdjacentHTML('beforeend', message.options);
+                      commitInput.classList.remove('hidden');
+                  }
+              });
+          </script>
+      </body>
+      </html>
+    `;
+  }
+
+  /** Dimensions, file size, color type and bit depth of an image. */
+  static getImageInfo(info: ImageInfo | null, fileSize: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    const exponent = Math.min(
+      units.length - 1,
+      Math.floor(Math.log(Math.max(fileSize, 1)) / Math.log(1024))
+    );
+    const size = `${(fileSize / 1024 ** exponent).toFixed(exponent ? 1 : 0)} ${
+      units[exponent]
+    }`;
+
+    if (!info) {
+      return `<span>${size}</span>`;
+    }
+    return `
+                  <span>${info.width}×${info.height}</span>
+                  <span>${size}</span>
+                  <span>${info.format.toUpperCase()} ${info.colorType}</span>
+                  <span>${info.bitDepth}-bit</span>`;
+  }
+
+  static getRecentCommitOptions(commits: GitCommitInfo[]): string {
+    return commits
+      .map(
+        ({ hash, shortHash, subject, date }) =>
+          `<option value="${hash}" title="${this.escapeHtml(
+            subject
+          )}">${shortHash} · ${new Date(
+            date
+          ).toLocaleDateString()} · ${this.escapeHtml(subject)}</option>`
+      )
+      .join('');
+  }
+
+  /**
+   * Shown while the diff of a pair of versions is computed. Bands of the diff
+   * image are drawn as the worker finishes them, so the first results of a
+   * large image show up before the whole diff is done.
+   */
+  static getDiffProgressContent(options: {
+    currentLabel: string;
+    previousLabel: string;
+    historyBar: string;
+    security: WebviewSecurity;
+  }): string {
+    const { currentLabel, previousLabel, historyBar, security } = options;
+
+    return `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+          <meta charset="UTF-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          ${this.getSecurityHeader(security)}
+          <title>Image Pixel Diff</title>
+          <style>
+              body {
+                  font-family: var(--vscode-font-family);
+                  margin: 0;
+                  padding: 0;
+                  background-color: var(--vscode-editor-background);
+                  color: var(--vscode-foreground);
+                  height: 100vh;
+                  display: flex;
+                  flex-direction: column;
+              }
+              
+              .toolbar {
+                  padding: 8px 12px;
+                  background-color: var(--vscode-titleBar-activeBackground);
+                  border-bottom: 1px solid var(--vscode-panel-border);
+                  display: flex;
+                  gap: 8px;
+                  align-items: center;
+                  font-size: 12px;
+              }
+              
+              .toolbar .status {
+                  margin-left: auto;
+                  color: var(--vscode-descriptionForeground);
+              }
+              
+              .progress {
+                  height: 2px;
+              }
+              
+              .progress-bar {
+                  width: 0;
+                  height: 100%;
+                  background-color: var(--vscode-progressBar-background);
+                  transition: width 0.1s;
+              }
+              
+              .image-container {
+                  flex: 1;
+                  display: flex;
+                  align-items: center;
+                  justify-content: center;
+                  padding: 20px;
+                  min-height: 0;
+              }
+              
+              .image-container canvas {
+                  max-width: 100%;
+                  max-height: 100%;
+                  border: 1px solid var(--vscode-widget-border);
+              }
+              
+              .hidden {
+                  display: none;
+              }
+          </style>
+      </head>
+      <body>
+          <div class="toolbar">
+              <span>${this.escapeHtml(previousLabel)} ↔ ${this.escapeHtml(
+      currentLabel
+    )}</span>
+              <span id="progressStatus" class="status">Decoding images…</span>
+          </div>
+          ${historyBar}
+          <div class="progress">
+              <div id="progressBar" class="progress-bar"></div>
+          </div>
+          
+          <div class="image-container">
+              <canvas id="diffCanvas" class="hidden"></canvas>
+          </div>
+          
+          <script nonce="${security.nonce}">
+              const vscode = acquireVsCodeApi();
+              const canvas = document.getElementById('diffCanvas');
+              
+              window.addEventListener('message', event => {
+                  const message = event.data;
+                  if (message.command !== 'diffTile') return;
+                  
+                  const { tile } = message;
+                  if (canvas.classList.contains('hidden')) {
+                      canvas.width = tile.width;
+                      canvas.height = tile.canvasHeight;
+                      canvas.classList.remove('hidden');
+                  }
+                  canvas.getContext('2d').putImageData(
+                      new ImageData(new Uint8ClampedArray(tile.data), tile.width, tile.height),
+                      0,
+                      tile.y
+                  );
+                  
+                  const percent = Math.round(tile.progress * 100);
+                  document.getElementById('progressBar').style.width = percent + '%';
+                  document.getElementById('progressStatus').textContent =
+                      percent < 100 ? \`Diffing \${percent}%\` : 'Preparing viewer…';
+              });
+              
+              vscode.postMessage({ command: 'progressReady' });
+          </script>
+      </body>
+      </html>
+    `;
+  }
+
+  /**
+   * Shows the only existing version of a file that was added or deleted
+   * between the compared versions.
+   */
+  static getSingleVersionContent(
+    content: DiffViewContent,
+    image: string,
+    security: WebviewSecurity,
+    versionSelector = '',
+    historyBar = ''
+  ): string {
+    const added = !content.previousData;
+    const label = this.escapeHtml(
+      added ? content.currentLabel : content.previousLabel
+    );
+    const notice = this.escapeHtml(
+      added
+        ? `Added: this image does not exist in ${content.previousLabel}.`
+        : `Deleted: this image does not exist in ${content.currentLabel}.`
+    );
+
+    return `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+          <meta charset="UTF-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          ${this.getSecurityHeader(security)}
+          <title>Image Pixel Diff</title>
+          <style>
+              body {
+                  font-family: var(--vscode-font-family);
+                  margin: 0;
+                  padding: 0;
+                  background-color: var(--vscode-editor-background);
+                  color: var(--vscode-foreground);
+                  height: 100vh;
+                  display: flex;
+                  flex-direction: column;
+              }
+              
+              .toolbar {
+                  padding: 8px 12px;
+                  background-color: var(--vscode-titleBar-activeBackground);
+                  border-bottom: 1px solid var(--vscode-panel-border);
+                  display: flex;
+                  gap: 8px;
+                  align-items: center;
+                  font-size: 12px;
+              }
+              
+              .version-selector {
+                  display: flex;
+                  align-items: center;
+                  gap: 4px;
+                  margin-left: auto;
+              }
+              
+              .version-selector select {
+                  background-color: var(--vscode-dropdown-background);
+                  color: var(--vscode-dropdown-foreground);
+                  border: 1px solid var(--vscode-dropdown-border);
+                  font-size: 11px;
+                  font-family: var(--vscode-font-family);
+              }
+              
+              .notice {
+                  padding: 4px 12px;
+                  font-size: 11px;
+                  background-color: var(--vscode-inputValidation-infoBackground);
+                  border-bottom: 1px solid var(--vscode-inputValidation-infoBorder);
+              }
+              
+              .image-container {
+                  flex: 1;
+                  display: flex;
+                  flex-direction: column;
+                  align-items: center;
+                  justify-content: center;
+                  gap: 12px;
+                  padding: 20px;
+                  min-height: 0;
+              }
+              
+              .image-container h3 {
+                  margin: 0;
+                  font-size: 14px;
+                  font-weight: 600;
+              }
+              
+              .image-container img {
+                  max-width: 100%;
+                  max-height: 100%;
+                  min-height: 0;
+                  object-fit: contain;
+                  border: 1px solid var(--vscode-widget-border);
+              }
+          </style>
+      </head>
+      <body>
+          <div class="toolbar">
+              <span>${added ? 'Added' : 'Deleted'}</span>
+              ${versionSelector}
+          </div>
+          ${historyBar}
+          <div class="notice">${notice}</div>
+          
+          <div class="image-container">
+              <h3>${label}</h3>
+              <img src="${image}" alt="${label}">
+          </div>
+          
+          <script nonce="${security.nonce}">
+              const vscode = acquireVsCodeApi();
+              
+              document.querySelectorAll('.version-select').forEach(select => {
+                  select.addEventListener('change', () => {
+                      vscode.postMessage({
+                          command: 'selectVersions',
+                          previous: document.getElementById('previousVersionInput').value,
+                          current: document.getElementById('currentVersionInput').value,
+                      });
+                  });
+              });
+          </script>
+      </body>
+      </html>
+    `;
+  }
+
+  static getDiffViewerContent(options: {
+    currentImage: string;
+    previousImage: string;
+    diff: DiffResult | null;
+    animation: AnimationDiff | null;
+    diffOptions: DiffOptions;
+    mismatchBudget: number;
+    ignoreRegions: IgnoreRegion[];
+    /** Glob the regions drawn in the viewer are saved under. */
+    ignorePattern: string;
+    currentLabel: string;
+    previousLabel: string;
+    versionSelector?: string;
+    historyBar?: string;
+    security: WebviewSecurity;
+  }): string {
+    const {
+      currentImage,
+      previousImage,
+      diff,
+      animation,
+      diffOptions,
+      mismatchBudget,
+      ignoreRegions,
+      ignorePattern,
+      currentLabel,
+      previousLabel,
+      versionSelector = '',
+      historyBar = '',
+      security,
+    } = options;
+
+    return `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+          <meta charset="UTF-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          ${this.getSecurityHeader(security)}
+          <title>Image Pixel Diff</title>
+          <style>
+              * { box-sizing: border-box; }
+              
+              body {
+                  font-family: var(--vscode-font-family);
+                  font-size: var(--vscode-font-size);
+                  padding: 0;
+                  margin: 0;
+                  background-color: var(--vscode-editor-background);
+                  color: var(--vscode-foreground);
+                  height: 100vh;
+                  overflow: hidden;
+                  display: flex;
+                  flex-direction: column;
+              }
+              
+              .toolbar {
+                  padding: 8px 12px;
+                  background-color: var(--vscode-titleBar-activeBackground);
+                  border-bottom: 1px solid var(--vscode-panel-border);
+                  display: flex;
+                  gap: 8px;
+                  align-items: center;
+                  flex-shrink: 0;
+              }
+              
+              .toolbar-button {
+                  padding: 4px 8px;
+                  background-color: var(--vscode-button-background);
+                  color: var(--vscode-button-foreground);
+                  border: 1px solid var(--vscode-button-border);
+                  border-radius: 2px;
+                  cursor: pointer;
+                  font-size: 11px;
+                  font-family: var(--vscode-font-family);
+                  min-width: 60px;
+                  text-align: center;
+                  transition: background-color 0.1s ease;
+              }
+              
+              .toolbar-button:hover {
+                  background-color: var(--vscode-button-hoverBackground);
+              }
+              
+              .toolbar-button.active {
+                  background-color: var(--vscode-button-secondaryBackground);
+                  color: var(--vscode-button-secondaryForeground);
+                  border-color: var(--vscode-focusBorder);
+              }
+              
+              .container {
+                  position: relative;
+                  display: flex;
+                  flex-direction: column;
+                  flex: 1;
+                  min-height: 0;
+              }
+              
+              .image-container {
+                  flex: 1;
+                  display: flex;
+                  align-items: center;
+                  justify-content: center;
+                  background-color: var(--vscode-editor-background);
+                  position: relative;
+                  overflow: hidden;
+                  min-height: 0;
+              }
+              
+              .side-by-side {
+                  display: flex;
+                  width: 100%;
+                  height: 100%;
+              }
+              
+              .side-by-side .image-panel {
+                  flex: 1;
+                  display: flex;
+                  flex-direction: column;
+                  align-items: stretch;
+                  justify-content: center;
+                  border-right: 1px solid var(--vscode-panel-border);
+                  padding: 16px 0 0 0;
+                  min-width: 0;
+              }
+              
+              .side-by-side .image-panel:last-child {
+                  border-right: none;
+              }
+              
+              .image-panel h3 {
+                  margin: 0 0 12px 0;
+                  text-align: center;
+                  font-size: 12px;
+                  font-weight: 600;
+                  color: var(--vscode-descriptionForeground);
+                  text-transform: uppercase;
+                  letter-spacing: 0.5px;
+              }
+              
+              .viewport {
+                  position: relative;
+                  width: 100%;
+                  height: 100%;
+                  overflow: hidden;
+                  cursor: grab;
+              }
+              
+              .image-panel .viewport {
+                  flex: 1;
+                  min-height: 0;
+              }
+              
+              .viewport.panning {
+                  cursor: grabbing;
+              }
+              
+              .stage {
+                  position: absolute;
+                  top: 0;
+                  left: 0;
+                  transform-origin: 0 0;
+                  --view-scale: 1;
+              }
+              
+              .stage.animated {
+                  transition: transform 0.2s ease;
+              }
+              
+              .stage img {
+                  position: absolute;
+                  top: 0;
+                  left: 0;
+                  display: block;
+                  max-width: none;
+                  max-height: none;
+                  outline: calc(1px / var(--view-scale)) solid var(--vscode-widget-border);
+              }
+              
+              .viewport.pixelated img {
+                  image-rendering: pixelated;
+              }
+              
+              .slider-viewport .current-image {
+                  z-index: 2;
+                  clip-path: inset(0 0 0 50%);
+              }
+              
+              .onion-viewport .onion-current {
+                  z-index: 2;
+                  opacity: 0.5;
+              }
+              
+              .slider {
+                  position: absolute;
+                  top: 0;
+                  left: 50%;
+                  width: 2px;
+                  height: 100%;
+                  background-color: var(--vscode-focusBorder);
+                  cursor: ew-resize;
+                  z-index: 3;
+                  transform: translateX(-50%);
+              }
+              
+              .slider::before {
+                  content: '';
+                  position: absolute;
+                  top: 50%;
+                  left: 50%;
+                  width: 12px;
+                  height: 40px;
+                  background-color: var(--vscode-focusBorder);
+                  border-radius: 6px;
+                  transform: translate(-50%, -50%);
+                  box-shadow: 0 2px 4px rgba(0, 0, 0, 0.2);
+              }
+              
+              .diff-controls,
+              .onion-controls {
+                  margin-left: auto;
+                  display: flex;
+                  align-items: center;
+                  gap: 12px;
+                  font-size: 11px;
+              }
+              
+              .diff-controls label,
+              .onion-controls label {
+                  display: flex;
+                  align-items: center;
+                  gap: 4px;
+                  white-space: nowrap;
+              }
+              
+              .diff-controls input[type="range"],
+              .onion-controls input[type="range"] {
+                  width: 80px;
+              }
+              
+              .diff-controls input[type="color"] {
+                  width: 20px;
+                  height: 18px;
+                  padding: 0;
+                  border: 1px solid var(--vscode-widget-border);
+                  background: none;
+              }
+              
+              .diff-controls.busy label {
+                  opacity: 0.6;
+              }
+              
+              .diff-progress {
+                  color: var(--vscode-descriptionForeground);
+              }
+              
+              .notice {
+                  padding: 4px 12px;
+                  font-size: 11px;
+                  background-color: var(--vscode-inputValidation-warningBackground);
+                  border-bottom: 1px solid var(--vscode-inputValidation-warningBorder);
+              }
+              
+              .diff-controls select,
+              .onion-controls select {
+                  background-color: var(--vscode-dropdown-background);
+                  color: var(--vscode-dropdown-foreground);
+                  border: 1px solid var(--vscode-dropdown-border);
+                  font-size: 11px;
+                  font-family: var(--vscode-font-family);
+              }
+              
+              .status-group {
+                  display: contents;
+              }
+              
+              .region-box {
+                  position: absolute;
+                  border: calc(1px / var(--view-scale)) dashed var(--vscode-focusBorder);
+                  pointer-events: none;
+                  z-index: 3;
+              }
+              
+              .region-box.selected {
+                  border-style: solid;
+                  box-shadow: 0 0 0 1px var(--vscode-editor-background);
+              }
+              
+              .stage img.ssim-overlay {
+                  z-index: 1;
+                  outline: none;
+              }
+              
+              .ignore-box {
+                  position: absolute;
+                  border: calc(1px / var(--view-scale)) solid var(--vscode-inputValidation-warningBorder);
+                  background: repeating-linear-gradient(
+                      45deg,
+                      rgba(128, 128, 128, 0.35) 0 4px,
+                      transparent 4px 8px
+                  );
+                  z-index: 2;
+              }
+              
+              .ignore-box.shared {
+                  border-style: dashed;
+              }
+              
+              .ignore-box button {
+                  position: absolute;
+                  top: 0;
+                  right: 0;
+                  transform: scale(calc(1 / var(--view-scale)));
+                  transform-origin: top right;
+                  padding: 0 4px;
+                  border: none;
+                  font-size: 11px;
+                  line-height: 16px;
+                  cursor: pointer;
+                  background-color: var(--vscode-inputValidation-warningBorder);
+                  color: var(--vscode-editor-background);
+              }
+              
+              .viewport.drawing {
+                  cursor: crosshair;
+              }
+              
+              .diff-placeholder {
+                  position: absolute;
+                  top: 50%;
+                  left: 50%;
+                  transform: translate(-50%, -50%);
+                  color: var(--vscode-descriptionForeground);
+              }
+              
+              .pixel-inspector {
+                  position: absolute;
+                  right: 12px;
+                  bottom: 12px;
+                  z-index: 10;
+                  padding: 8px;
+                  font-size: 11px;
+                  font-family: var(--vscode-editor-font-family);
+                  background-color: var(--vscode-editorWidget-background);
+                  border: 1px solid var(--vscode-editorWidget-border);
+                  box-shadow: 0 2px 8px var(--vscode-widget-shadow);
+                  pointer-events: none;
+              }
+              
+              .pixel-inspector.left {
+                  right: auto;
+                  left: 12px;
+              }
+              
+              .pixel-inspector .loupes {
+                  display: flex;
+                  gap: 8px;
+                  margin-bottom: 6px;
+              }
+              
+              .pixel-inspector figure {
+                  margin: 0;
+                  text-align: center;
+              }
+              
+              .pixel-inspector canvas {
+                  display: block;
+                  margin-bottom: 2px;
+                  image-rendering: pixelated;
+                  background: repeating-conic-gradient(#808080 0% 25%, #c0c0c0 0% 50%) 0 0 / 10px 10px;
+              }
+              
+              .pixel-inspector table {
+                  width: 100%;
+                  border-collapse: collapse;
+              }
+              
+              .pixel-inspector th,
+              .pixel-inspector td {
+                  padding: 0 4px;
+                  text-align: right;
+              }
+              
+              .pixel-inspector .over {
+                  color: var(--vscode-errorForeground);
+              }
+              
+              .version-selector {
+                  display: flex;
+                  align-items: center;
+                  gap: 4px;
+                  padding-left: 8px;
+                  font-size: 11px;
+                  border-left: 1px solid var(--vscode-panel-border);
+              }
+              
+              .version-selector select,
+              .export-select {
+                  background-color: var(--vscode-dropdown-background);
+                  color: var(--vscode-dropdown-foreground);
+                  border: 1px solid var(--vscode-dropdown-border);
+                  font-size: 11px;
+                  font-family: var(--vscode-font-family);
+              }
+              
+              .zoom-controls {
+                  display: flex;
+                  align-items: center;
+                  gap: 4px;
+                  padding-left: 8px;
+                  border-left: 1px solid var(--vscode-panel-border);
+              }
+              
+              .zoom-controls .toolbar-button {
+                  min-width: 0;
+              }
+              
+              .zoom-label {
+                  min-width: 40px;
+                  font-size: 11px;
+                  text-align: right;
+                  color: var(--vscode-descriptionForeground);
+              }
+              
+              .timeline {
+                  flex-shrink: 0;
+                  border-top: 1px solid var(--vscode-panel-border);
+                  padding: 6px 12px;
+                  display: flex;
+                  flex-direction: column;
+                  gap: 6px;
+              }
+              
+              .timeline-header {
+                  display: flex;
+                  align-items: center;
+                  gap: 12px;
+                  font-size: 11px;
+              }
+              
+              .timeline-warning {
+                  color: var(--vscode-editorWarning-foreground);
+              }
+              
+              .timeline-frames {
+                  display: flex;
+                  gap: 4px;
+                  overflow-x: auto;
+                  padding-bottom: 4px;
+              }
+              
+              .frame-cell {
+                  flex-shrink: 0;
+                  min-width: 64px;
+                  padding: 4px 6px;
+                  background-color: var(--vscode-editorWidget-background);
+                  color: var(--vscode-foreground);
+                  border: 1px solid var(--vscode-widget-border);
+                  border-radius: 2px;
+                  cursor: pointer;
+                  font-size: 10px;
+                  font-family: var(--vscode-font-family);
+                  display: flex;
+                  flex-direction: column;
+                  align-items: flex-start;
+                  gap: 2px;
+              }
+              
+              .frame-cell.selected {
+                  border-color: var(--vscode-focusBorder);
+                  background-color: var(--vscode-list-activeSelectionBackground);
+                  color: var(--vscode-list-activeSelectionForeground);
+              }
+              
+              .frame-cell.changed .frame-mismatch,
+              .frame-cell.unmatched .frame-mismatch {
+                  color: var(--vscode-errorForeground);
+              }
+              
+              .frame-cell.delay-changed .frame-delay {
+                  color: var(--vscode-editorWarning-foreground);
+              }
+              
+              .hidden { display: none !important; }
+              
+              .status-bar {
+                  padding: 4px 12px;
+                  background-color: var(--vscode-statusBar-background);
+                  color: var(--vscode-statusBar-foreground);
+                  border-top: 1px solid var(--vscode-panel-border);
+                  font-size: 11px;
+                  display: flex;
+                  align-items: center;
+                  gap: 16px;
+                  flex-shrink: 0;
+              }
+              
+              .status-item {
+                  display: flex;
+                  align-items: center;
+                  gap: 4px;
+              }
+              
+              .status-icon {
+                  width: 12px;
+                  height: 12px;
+                  opacity: 0.8;
+              }
+              
+              .status-regions {
+                  flex: 1;
+                  min-width: 0;
+                  overflow-x: auto;
+                  white-space: nowrap;
+              }
+              
+              .region-chip {
+                  padding: 0 6px;
+                  background: transparent;
+                  color: inherit;
+                  border: 1px solid currentColor;
+                  border-radius: 8px;
+                  cursor: pointer;
+                  font-size: 10px;
+                  font-family: var(--vscode-font-family);
+                  opacity: 0.85;
+              }
+              
+              .region-chip:hover,
+              .region-chip.selected {
+                  opacity: 1;
+                  background-color: var(--vscode-statusBarItem-hoverBackground);
+              }
+          </style>
+      </head>
+      <body>
+          <div class="toolbar">
+              <button id="sideBySideBtn" class="toolbar-button active" data-action="setMode" data-arg='"sideBySide"'>Side by Side</button>
+              <button id="sliderBtn" class="toolbar-button" data-action="setMode" data-arg='"slider"'>Swipe</button>
+              ${
+                diff
+                  ? '<button id="diffBtn" class="toolbar-button" data-action="setMode" data-arg=\'"diff"\'>Difference</button>'
+                  : ''
+              }
+              <button id="onionBtn" class="toolbar-button" data-action="setMode" data-arg='"onion"'>Onion Skin</button>
+              ${versionSelector}
+              <div class="zoom-controls">
+                  <button class="toolbar-button" data-action="fitView" data-arg="true" title="Fit to window (0)">Fit</button>
+                  <button class="toolbar-button" data-action="setZoom" data-arg="1">100%</button>
+                  <button class="toolbar-button" data-action="setZoom" data-arg="2">200%</button>
+                  <button class="toolbar-button" data-action="setZoom" data-arg="8">800%</button>
+                  <span id="zoomLabel" class="zoom-label"></span>
+              </div>
+              ${
+                diff
+                  ? `
+              <select id="exportInput" class="export-select" title="Save the comparison to disk">
+                  <option value="" selected>Export…</option>
+                  <option value="diff">Diff PNG</option>
+                  <option value="sideBySide">Side-by-side PNG</option>
+                  <option value="gif">Before/after GIF</option>
+                  <option value="report">HTML + JSON report</option>
+              </select>`
+                  : ''
+              }
+              ${diff ? this.getDiffControls(diffOptions) : ''}
+              <div id="onionControls" class="onion-controls hidden">
+                  <label title="Opacity of the current version">
+                      Opacity
+                      <input id="onionOpacityInput" type="range" min="0" max="100" step="1" value="50">
+                      <span id="onionOpacityValue">50%</span>
+                  </label>
+                  <button id="blinkBtn" class="toolbar-button" data-action="toggleBlink" title="Alternate both versions (5)">Blink</button>
+                  <label title="Time each version is shown while blinking">
+                      Every
+                      <select id="blinkIntervalInput">
+                          <option value="250">250 ms</option>
+                          <option value="500" selected>500 ms</option>
+                          <option value="1000">1 s</option>
+                      </select>
+                  </label>
+              </div>
+          </div>
+          ${historyBar}
+          
+          <div class="container">
+              <div id="alignmentNotice">${
+                diff ? this.getAlignmentNotice(diff) : ''
+              }</div>
+              
+              <div id="sideBySideMode" class="image-container">
+                  <div class="side-by-side">
+                      <div class="image-panel">
+                          <h3>${this.escapeHtml(previousLabel)}</h3>
+                          <div class="viewport">
+                              <div class="stage">
+                                  <img id="previousSideImage" data-version="previous" src="${previousImage}" alt="Previous Version">
+                              </div>
+                          </div>
+                      </div>
+                      <div class="image-panel">
+                          <h3>${this.escapeHtml(currentLabel)}</h3>
+                          <div class="viewport">
+                              <div class="stage">
+                                  <img id="currentSideImage" data-version="current" src="${currentImage}" alt="Current Version">
+                              </div>
+                          </div>
+                      </div>
+                  </div>
+              </div>
+              
+              <div id="sliderMode" class="image-container hidden">
+                  <div class="viewport slider-viewport">
+                      <div class="stage">
+                          <img class="previous-image" data-version="previous" src="${previousImage}" alt="Previous Version">
+                          <img class="current-image" data-version="current" src="${currentImage}" alt="Current Version">
+                      </div>
+                      <div class="slider" id="slider"></div>
+                  </div>
+              </div>
+              
+              <div id="onionMode" class="image-container hidden">
+                  <div class="viewport onion-viewport">
+                      <div class="stage">
+                          <img class="onion-previous" data-version="previous" src="${previousImage}" alt="Previous Version">
+                          <img class="onion-current" data-version="current" src="${currentImage}" alt="Current Version">
+                      </div>
+                  </div>
+              </div>
+              
+              ${
+                diff
+                  ? `
+              <div id="diffMode" class="image-container hidden">
+                  <div class="viewport diff-viewport">
+                      <div id="diffStage" class="stage">
+                          <img id="diffImage" src="${
+                            diff.diffImage
+                          }" alt="Diff Image">
+                          <img id="ssimImage" class="ssim-overlay hidden" src="${
+                            diff.ssimImage
+                          }" alt="SSIM Heatmap">
+                          ${this.getRegionBoxes(diff)}
+                          ${this.getIgnoreBoxes(
+                            diff,
+                            ignoreRegions,
+                            ignorePattern
+                          )}
+                      </div>
+                      <span id="diffPlaceholder" class="diff-placeholder hidden">This frame only exists in one version</span>
+                  </div>
+              </div>
+              `
+                  : ''
+              }
+              
+              ${animation ? this.getAnimationTimeline(animation) : ''}
+              
+              <div id="pixelInspector" class="pixel-inspector hidden">
+                  <div class="loupes">
+                      <figure>
+                          <canvas id="previousLoupe" width="110" height="110"></canvas>
+                          <figcaption>${this.escapeHtml(
+                            previousLabel
+                          )}</figcaption>
+                      </figure>
+                      <figure>
+                          <canvas id="currentLoupe" width="110" height="110"></canvas>
+                          <figcaption>${this.escapeHtml(
+                            currentLabel
+                          )}</figcaption>
+                      </figure>
+                  </div>
+                  <div id="inspectorValues"></div>
+              </div>
+          </div>
+          
+          <div class="status-bar">
+              <div id="diffStatistics" class="status-group">
+                  ${
+                    diff
+                      ? this.getDiffStatistics(diff, mismatchBudget)
+                      : `
+                  <div class="status-item">
+                      <span class="status-icon">📷</span>
+                      <span>Image Comparison</span>
+                  </div>`
+                  }
+              </div>
+              <div class="status-item">
+                  <span class="status-icon">⚡</span>
+                  <span>Scroll to zoom • Drag to pan • Hover to inspect pixels • Press 1-4 to switch modes, 5 to blink${
+                    animation ? ' • ←/→ to step frames' : ''
+                  }</span>
+              </div>
+          </div>
+          
+          <script nonce="${security.nonce}">
+              let currentMode = 'sideBySide';
+              let isDragging = false;
+              
+              function setMode(mode) {
+                  document.querySelectorAll('.toolbar > .toolbar-button').forEach(btn => {
+                      btn.classList.remove('active');
+                  });
+                  
+                  if (mode !== 'onion') stopBlink();
+                  
+                  if (mode === 'sideBySide') {
+                      document.getElementById('sideBySideBtn').classList.add('active');
+                  } else if (mode === 'slider') {
+                      document.getElementById('sliderBtn').classList.add('active');
+                  } else if (mode === 'diff') {
+                      const diffBtn = document.getElementById('diffBtn');
+                      if (diffBtn) diffBtn.classList.add('active');
+                  } else if (mode === 'onion') {
+                      document.getElementById('onionBtn').classList.add('active');
+                  }
+                  
+                  document.getElementById('sideBySideMode').classList.add('hidden');
+                  document.getElementById('sliderMode').classList.add('hidden');
+                  document.getElementById('onionMode').classList.add('hidden');
+                  if (document.getElementById('diffMode')) {
+                      document.getElementById('diffMode').classList.add('hidden');
+                  }
+                  
+                  const diffControls = document.getElementById('diffControls');
+                  if (diffControls) diffControls.classList.toggle('hidden', mode !== 'diff');
+                  document.getElementById('onionControls').classList.toggle('hidden', mode !== 'onion');
+                  
+                  currentMode = mode;
+                  if (mode === 'sideBySide') {
+                      document.getElementById('sideBySideMode').classList.remove('hidden');
+                  } else if (mode === 'slider') {
+                      document.getElementById('sliderMode').classList.remove('hidden');
+                  } else if (mode === 'diff') {
+                      document.getElementById('diffMode').classList.remove('hidden');
+                  } else if (mode === 'onion') {
+                      document.getElementById('onionMode').classList.remove('hidden');
+                  }
+                  
+                  applyView();
+              }
+              
+              const onionCurrentImage = document.querySelector('.onion-current');
+              const onionOpacityInput = document.getElementById('onionOpacityInput');
+              const blinkIntervalInput = document.getElementById('blinkIntervalInput');
+              let blinkTimer = null;
+              let blinkShowsCurrent = true;
+              
+              function updateOnionOpacity() {
+                  document.getElementById('onionOpacityValue').textContent = onionOpacityInput.value + '%';
+                  if (!blinkTimer) onionCurrentImage.style.opacity = onionOpacityInput.value / 100;
+              }
+              
+              function startBlink() {
+                  stopBlink();
+                  blinkTimer = setInterval(() => {
+                      blinkShowsCurrent = !blinkShowsCurrent;
+                      onionCurrentImage.style.opacity = blinkShowsCurrent ? 1 : 0;
+                  }, Number(blinkIntervalInput.value));
+                  onionCurrentImage.style.opacity = 1;
+                  document.getElementById('blinkBtn').classList.add('active');
+              }
+              
+              function stopBlink() {
+                  if (!blinkTimer) return;
+                  
+                  clearInterval(blinkTimer);
+                  blinkTimer = null;
+                  blinkShowsCurrent = true;
+                  document.getElementById('blinkBtn').classList.remove('active');
+                  updateOnionOpacity();
+              }
+              
+              function toggleBlink() {
+                  if (blinkTimer) {
+                      stopBlink();
+                      return;
+                  }
+                  if (currentMode !== 'onion') setMode('onion');
+                  startBlink();
+              }
+              
+              onionOpacityInput.addEventListener('input', updateOnionOpacity);
+              blinkIntervalInput.addEventListener('change', () => {
+                  if (blinkTimer) startBlink();
+              });
+              
+              const MIN_ZOOM = 0.05;
+              const MAX_ZOOM = 64;
+              const view = { fit: true, scale: 1, centerX: 0, centerY: 0 };
+              const slider = document.getElementById('slider');
+              const sliderViewport = document.querySelector('.slider-viewport');
+              const currentImage = document.querySelector('.current-image');
+              let sliderPosition = 0.5;
+              let pan = null;
+              
+              function getCanvasLayout() {
+                  if (diffResult) return diffResult;
+                  
+                  const images = Array.from(document.querySelectorAll('.stage img[data-version]'));
+                  const origin = { x: 0, y: 0 };
+                  return {
+                      width: Math.max(1, ...images.map(img => img.naturalWidth)),
+                      height: Math.max(1, ...images.map(img => img.naturalHeight)),
+                      currentOffset: origin,
+                      previousOffset: origin,
+                  };
+              }
+              
+              function getVisibleViewports() {
+                  return Array.from(document.querySelectorAll('.viewport')).filter(viewport => viewport.offsetParent !== null);
+              }
+              
+              function getFitScale(viewport) {
+                  const canvas = getCanvasLayout();
+                  return Math.min(
+                      (viewport.clientWidth - 32) / canvas.width,
+                      (viewport.clientHeight - 32) / canvas.height,
+                      1
+                  );
+              }
+              
+              function getViewTransform(viewport) {
+                  const canvas = getCanvasLayout();
+                  const scale = view.fit ? getFitScale(viewport) : view.scale;
+                  const centerX = view.fit ? canvas.width / 2 : view.centerX;
+                  const centerY = view.fit ? canvas.height / 2 : view.centerY;
+                  return {
+                      scale,
+                      x: viewport.clientWidth / 2 - centerX * scale,
+                      y: viewport.clientHeight / 2 - centerY * scale,
+                  };
+              }
+              
+              function applyView(animate) {
+                  const canvas = getCanvasLayout();
+                  
+                  document.querySelectorAll('.stage').forEach(stage => {
+                      stage.style.width = canvas.width + 'px';
+                      stage.style.height = canvas.height + 'px';
+                  });
+                  document.querySelectorAll('.stage img[data-version]').forEach(img => {
+                      const offset = img.dataset.version === 'current' ? canvas.currentOffset : canvas.previousOffset;
+                      img.style.left = offset.x + 'px';
+                      img.style.top = offset.y + 'px';
+                  });
+                  
+                  const viewports = getVisibleViewports();
+                  viewports.forEach(viewport => {
+                      const transform = getViewTransform(viewport);
+                      const stage = viewport.querySelector('.stage');
+                      stage.classList.toggle('animated', !!animate);
+                      stage.style.transform = \`translate(\${transform.x}px, \${transform.y}px) scale(\${transform.scale})\`;
+                      stage.style.setProperty('--view-scale', transform.scale);
+                      viewport.classList.toggle('pixelated', transform.scale > 1);
+                  });
+                  
+                  updateSliderClip();
+                  if (viewports.length) {
+                      document.getElementById('zoomLabel').textContent = Math.round(getViewTransform(viewports[0]).scale * 100) + '%';
+                  }
+              }
+              
+              function setZoom(scale, viewport, clientX, clientY) {
+                  viewport = viewport || getVisibleViewports()[0];
+                  if (!viewport) return;
+                  
+                  const transform = getViewTransform(viewport);
+                  const rect = viewport.getBoundingClientRect();
+                  const pointX = clientX === undefined ? rect.width / 2 : clientX - rect.left;
+                  const pointY = clientY === undefined ? rect.height / 2 : clientY - rect.top;
+                  const imageX = (pointX - transform.x) / transform.scale;
+                  const imageY = (pointY - transform.y) / transform.scale;
+                  const nextScale = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, scale));
+                  
+                  view.fit = false;
+                  view.scale = nextScale;
+                  view.centerX = imageX - (pointX - rect.width / 2) / nextScale;
+                  view.centerY = imageY - (pointY - rect.height / 2) / nextScale;
+                  applyView();
+              }
+              
+              function fitView(animate) {
+                  view.fit = true;
+                  applyView(animate);
+              }
+              
+              function updateSliderPosition(clientX) {
+                  if (!sliderViewport) return;
+                  
+                  const rect = sliderViewport.getBoundingClientRect();
+                  sliderPosition = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+                  updateSliderClip();
+              }
+              
+              function updateSliderClip() {
+                  if (!sliderViewport || currentMode !== 'slider') return;
+                  
+                  const transform = getViewTransform(sliderViewport);
+                  const canvas = getCanvasLayout();
+                  const clipX = (sliderPosition * sliderViewport.clientWidth - transform.x) / transform.scale - canvas.currentOffset.x;
+                  
+                  slider.style.left = sliderPosition * 100 + '%';
+                  currentImage.style.clipPath = \`inset(0 0 0 \${Math.max(0, clipX)}px)\`;
+              }
+              
+              if (slider) {
+                  slider.addEventListener('mousedown', (e) => {
+                      isDragging = true;
+                      e.preventDefault();
+                      e.stopPropagation();
+                      document.body.style.cursor = 'ew-resize';
+                  });
+              }
+              
+              document.querySelectorAll('.viewport').forEach(viewport => {
+                  viewport.addEventListener('wheel', (e) => {
+                      e.preventDefault();
+                      const scale = getViewTransform(viewport).scale;
+                      setZoom(scale * Math.exp(-e.deltaY * 0.0015), viewport, e.clientX, e.clientY);
+                  }, { passive: false });
+                  
+                  viewport.addEventListener('mousedown', (e) => {
+                      if (e.button !== 0 || viewport.classList.contains('drawing')) return;
+                      
+                      const transform = getViewTransform(viewport);
+                      pan = {
+                          viewport,
+                          startX: e.clientX,
+                          startY: e.clientY,
+                          scale: transform.scale,
+                          centerX: (viewport.clientWidth / 2 - transform.x) / transform.scale,
+                          centerY: (viewport.clientHeight / 2 - transform.y) / transform.scale,
+                          moved: false,
+                      };
+                  });
+              });
+              
+              document.addEventListener('mousemove', (e) => {
+                  if (isDragging && currentMode === 'slider') {
+                      updateSliderPosition(e.clientX);
+                      return;
+                  }
+                  if (!pan) return;
+                  
+                  const dx = e.clientX - pan.startX;
+                  const dy = e.clientY - pan.startY;
+                  if (!pan.moved && Math.abs(dx) + Math.abs(dy) < 3) return;
+                  
+                  pan.moved = true;
+                  pan.viewport.classList.add('panning');
+                  view.fit = false;
+                  view.scale = pan.scale;
+                  view.centerX = pan.centerX - dx / pan.scale;
+                  view.centerY = pan.centerY - dy / pan.scale;
+                  applyView();
+              });
+              
+              document.addEventListener('mouseup', (e) => {
+                  if (pan) {
+                      pan.viewport.classList.remove('panning');
+                      // A click without dragging moves the swipe divider.
+                      if (!pan.moved && currentMode === 'slider') updateSliderPosition(e.clientX);
+                      pan = null;
+                  }
+                  isDragging = false;
+                  document.body.style.cursor = 'default';
+              });
+              
+              window.addEventListener('resize', () => applyView());
+              document.querySelectorAll('.stage img').forEach(img => {
+                  img.addEventListener('load', () => applyView());
+              });
+              
+              document.querySelectorAll('img').forEach(img => {
+                  img.addEventListener('dragstart', (e) => e.preventDefault());
+              });
+              
+              document.addEventListener('keydown', (e) => {
+                  if (e.key === '1') setMode('sideBySide');
+                  else if (e.key === '2') setMode('slider');
+                  else if (e.key === '3' && document.getElementById('diffMode')) setMode('diff');
+                  else if (e.key === '4') setMode('onion');
+                  else if (e.key === '5') toggleBlink();
+                  else if (e.key === '0') fitView(true);
+                  else if (e.key === '+' || e.key === '=') setZoom(getViewTransform(getVisibleViewports()[0]).scale * 2);
+                  else if (e.key === '-') setZoom(getViewTransform(getVisibleViewports()[0]).scale / 2);
+                  else if (e.key === 'ArrowLeft' && animation) selectFrame(currentFrame - 1);
+                  else if (e.key === 'ArrowRight' && animation) selectFrame(currentFrame + 1);
+              });
+              
+              const animation = ${
+                animation
+                  ? JSON.stringify(animation).replace(/</g, '\\u003c')
+                  : 'null'
+              };
+              let currentFrame = 0;
+              let playTimer = null;
+              
+              function setFrameImage(img, src) {
+                  if (!img) return;
+                  img.style.visibility = src ? 'visible' : 'hidden';
+                  if (src) img.src = src;
+              }
+              
+              function selectFrame(index) {
+                  if (!animation) return;
+                  
+                  const count = animation.frames.length;
+                  currentFrame = (index + count) % count;
+                  const frame = animation.frames[currentFrame];
+                  
+                  setFrameImage(document.getElementById('previousSideImage'), frame.previousImage);
+                  setFrameImage(document.getElementById('currentSideImage'), frame.currentImage);
+                  setFrameImage(document.querySelector('.previous-image'), frame.previousImage);
+                  setFrameImage(document.querySelector('.current-image'), frame.currentImage);
+                  setFrameImage(document.querySelector('.onion-previous'), frame.previousImage);
+                  setFrameImage(onionCurrentImage, frame.currentImage);
+                  
+                  const diffImg = document.getElementById('diffImage');
+                  if (diffImg) {
+                      setFrameImage(diffImg, frame.diffImage);
+                      diffImg.classList.toggle('hidden', !frame.diffImage);
+                      document.getElementById('diffPlaceholder').classList.toggle('hidden', !!frame.diffImage);
+                  }
+                  
+                  document.querySelectorAll('.region-box').forEach(box => {
+                      box.classList.toggle('hidden', currentFrame !== 0);
+                  });
+                  updateSsimOverlay();
+                  document.querySelectorAll('.frame-cell').forEach((cell, i) => {
+                      cell.classList.toggle('selected', i === currentFrame);
+                  });
+                  document.querySelectorAll('.frame-cell')[currentFrame].scrollIntoView({ block: 'nearest', inline: 'nearest' });
+                  document.getElementById('frameLabel').textContent = 'Frame ' + (currentFrame + 1) + ' / ' + count;
+              }
+              
+              // The SSIM heatmap, like the changed regions, is of the first frame.
+              function updateSsimOverlay() {
+                  const overlay = document.getElementById('ssimImage');
+                  if (!overlay) return;
+                  
+                  const enabled = document.getElementById('ssimOverlayBtn').classList.contains('active');
+                  overlay.classList.toggle('hidden', !enabled || currentFrame !== 0);
+              }
+              
+              function toggleSsimOverlay() {
+                  document.getElementById('ssimOverlayBtn').classList.toggle('active');
+                  if (currentMode !== 'diff') setMode('diff');
+                  updateSsimOverlay();
+              }
+              
+              function togglePlay() {
+                  const playBtn = document.getElementById('playBtn');
+                  
+                  if (playTimer) {
+                      clearTimeout(playTimer);
+                      playTimer = null;
+                      playBtn.textContent = '▶ Play';
+                      return;
+                  }
+                  
+                  playBtn.textContent = '⏸ Pause';
+                  const step = () => {
+                      const frame = animation.frames[currentFrame];
+                      const delay = Math.max(frame.currentDelay ?? frame.previousDelay ?? 100, 20);
+                      playTimer = setTimeout(() => {
+                          selectFrame(currentFrame + 1);
+                          step();
+                      }, delay);
+                  };
+                  step();
+              }
+              
+              if (animation) selectFrame(0);
+              
+              const diffResult = ${
+                diff
+                  ? JSON.stringify({
+                      width: diff.width,
+                      height: diff.height,
+                      currentOffset: diff.currentOffset,
+                      previousOffset: diff.previousOffset,
+                      regions: diff.regions,
+                    })
+                  : 'null'
+              };
+              function zoomToRegion(index) {
+                  if (!diffResult) return;
+                  if (currentMode !== 'diff') setMode('diff');
+                  
+                  const region = diffResult.regions[index];
+                  const viewport = document.querySelector('.diff-viewport');
+                  
+                  view.fit = false;
+                  view.scale = Math.max(getFitScale(viewport), Math.min(
+                      MAX_ZOOM,
+                      (viewport.clientWidth * 0.6) / region.width,
+                      (viewport.clientHeight * 0.6) / region.height
+                  ));
+                  view.centerX = region.x + region.width / 2;
+                  view.centerY = region.y + region.height / 2;
+                  applyView(true);
+                  
+                  document.querySelectorAll('.region-box, .region-chip').forEach(el => {
+                      el.classList.toggle('selected', Number(el.dataset.region) === index);
+                  });
+                  document.getElementById('resetZoomBtn').classList.remove('hidden');
+              }
+              
+              function resetZoom() {
+                  document.querySelectorAll('.region-box, .region-chip').forEach(el => {
+                      el.classList.remove('selected');
+                  });
+                  const resetZoomBtn = document.getElementById('resetZoomBtn');
+                  if (resetZoomBtn) resetZoomBtn.classList.add('hidden');
+                  fitView(true);
+              }
+              
+              const vscode = acquireVsCodeApi();
+              let diffRequestId = 0;
+              
+              const exportInput = document.getElementById('exportInput');
+              if (exportInput) {
+                  exportInput.addEventListener('change', () => {
+                      if (!exportInput.value) return;
+                      vscode.postMessage({ command: 'export', format: exportInput.value });
+                      exportInput.value = '';
+                  });
+              }
+              
+              document.querySelectorAll('.version-select').forEach(select => {
+                  select.addEventListener('change', () => {
+                      vscode.postMessage({
+                          command: 'selectVersions',
+                          previous: document.getElementById('previousVersionInput').value,
+                          current: document.getElementById('currentVersionInput').value,
+                      });
+                  });
+              });
+              let diffUpdateTimer = null;
+              
+              function readDiffOptions() {
+                  return {
+                      alignment: document.getElementById('alignmentInput').value,
+                      threshold: Number(document.getElementById('thresholdInput').value),
+                      alpha: Number(document.getElementById('alphaInput').value),
+                      includeAA: document.getElementById('includeAAInput').checked,
+                      diffMask: document.getElementById('diffMaskInput').checked,
+                      diffColor: document.getElementById('diffColorInput').value,
+                      diffColorAlt: document.getElementById('diffColorAltEnabledInput').checked
+                          ? document.getElementById('diffColorAltInput').value
+                          : null,
+                      aaColor: document.getElementById('aaColorInput').value,
+                  };
+              }
+              
+              function requestDiffUpdate() {
+                  const options = readDiffOptions();
+                  document.getElementById('thresholdValue').textContent = options.threshold.toFixed(2);
+                  document.getElementById('alphaValue').textContent = options.alpha.toFixed(2);
+                  
+                  clearTimeout(diffUpdateTimer);
+                  diffUpdateTimer = setTimeout(() => {
+                      document.getElementById('diffControls').classList.add('busy');
+                      vscode.postMessage({ command: 'updateDiffOptions', requestId: ++diffRequestId, options });
+                  }, 150);
+              }
+              
+              document.querySelectorAll('#diffControls input, #diffControls select').forEach(input => {
+                  input.addEventListener('input', requestDiffUpdate);
+              });
+              
+              // Regions saved under this image's own path; regions of globs
+              // shared with other images can only be edited in the file.
+              const ignorePattern = ${JSON.stringify(ignorePattern)};
+              let ignoreRegions = ${JSON.stringify(
+                ignoreRegions.filter(({ pattern }) => pattern === ignorePattern)
+              ).replace(/</g, '\\u003c')};
+              let ignoreDraft = null;
+              
+              function toggleIgnoreDrawing() {
+                  const viewport = document.querySelector('.diff-viewport');
+                  const drawing = !viewport.classList.contains('drawing');
+                  viewport.classList.toggle('drawing', drawing);
+                  document.getElementById('ignoreRegionBtn').classList.toggle('active', drawing);
+                  if (drawing && currentMode !== 'diff') setMode('diff');
+              }
+              
+              function saveIgnoreRegions() {
+                  document.getElementById('diffControls').classList.add('busy');
+                  vscode.postMessage({
+                      command: 'updateIgnoreRegions',
+                      requestId: ++diffRequestId,
+                      regions: ignoreRegions.map(({ x, y, width, height }) => ({ x, y, width, height })),
+                  });
+              }
+              
+              function removeIgnoreRegion(index) {
+                  ignoreRegions.splice(index, 1);
+                  document.querySelectorAll('.ignore-box[data-ignore]').forEach(box => {
+                      const boxIndex = Number(box.dataset.ignore);
+                      if (boxIndex === index) {
+                          box.remove();
+                      } else if (boxIndex > index) {
+                          box.dataset.ignore = boxIndex - 1;
+                          box.querySelector('button').dataset.arg = boxIndex - 1;
+                      }
+                  });
+                  saveIgnoreRegions();
+              }
+              
+              function getCanvasPoint(viewport, e) {
+                  const transform = getViewTransform(viewport);
+                  const rect = viewport.getBoundingClientRect();
+                  return {
+                      x: Math.max(0, Math.min(diffResult.width, Math.round((e.clientX - rect.left - transform.x) / transform.scale))),
+                      y: Math.max(0, Math.min(diffResult.height, Math.round((e.clientY - rect.top - transform.y) / transform.scale))),
+                  };
+              }
+              
+              function getDraftRect(e) {
+                  const point = getCanvasPoint(ignoreDraft.viewport, e);
+                  return {
+                      x: Math.min(point.x, ignoreDraft.start.x),
+                      y: Math.min(point.y, ignoreDraft.start.y),
+                      width: Math.abs(point.x - ignoreDraft.start.x),
+                      height: Math.abs(point.y - ignoreDraft.start.y),
+                  };
+              }
+              
+              const diffViewport = document.querySelector('.diff-viewport');
+              if (diffViewport) {
+                  diffViewport.addEventListener('mousedown', (e) => {
+                      if (e.button !== 0 || !diffViewport.classList.contains('drawing')) return;
+                      
+                      const box = document.createElement('div');
+                      box.className = 'ignore-box draft';
+                      document.getElementById('diffStage').appendChild(box);
+                      ignoreDraft = { viewport: diffViewport, start: getCanvasPoint(diffViewport, e), box };
+                  });
+                  
+                  document.addEventListener('mousemove', (e) => {
+                      if (!ignoreDraft) return;
+                      
+                      const rect = getDraftRect(e);
+                      Object.assign(ignoreDraft.box.style, {
+                          left: rect.x + 'px',
+                          top: rect.y + 'px',
+                          width: rect.width + 'px',
+                          height: rect.height + 'px',
+                      });
+                  });
+                  
+                  document.addEventListener('mouseup', (e) => {
+                      if (!ignoreDraft) return;
+                      
+                      const rect = getDraftRect(e);
+                      ignoreDraft = null;
+                      if (!rect.width || !rect.height) {
+                          document.querySelectorAll('.ignore-box.draft').forEach(box => box.remove());
+                          return;
+                      }
+                      ignoreRegions.push(rect);
+                      saveIgnoreRegions();
+                  });
+              }
+              
+              const LOUPE_ZOOM = 10;
+              const pixelInspector = document.getElementById('pixelInspector');
+              let inspectPending = false;
+              let queuedInspection = null;
+              let inspectedPixel = null;
+              
+              function requestInspection(point) {
+                  if (inspectPending) {
+                      queuedInspection = point;
+                      return;
+                  }
+                  inspectPending = true;
+                  vscode.postMessage({ command: 'inspectPixel', x: point.x, y: point.y, frame: currentFrame });
+              }
+              
+              function hideInspector() {
+                  inspectedPixel = null;
+                  queuedInspection = null;
+                  pixelInspector.classList.add('hidden');
+              }
+              
+              function drawLoupe(canvas, pixels, size) {
+                  const context = canvas.getContext('2d');
+                  context.clearRect(0, 0, canvas.width, canvas.height);
+                  
+                  for (let i = 0; i < size * size; i++) {
+                      const [r, g, b, a] = pixels.slice(i * 4, i * 4 + 4);
+                      context.fillStyle = \`rgba(\${r}, \${g}, \${b}, \${a / 255})\`;
+                      context.fillRect((i % size) * LOUPE_ZOOM, Math.floor(i / size) * LOUPE_ZOOM, LOUPE_ZOOM, LOUPE_ZOOM);
+                  }
+                  
+                  const center = Math.floor(size / 2) * LOUPE_ZOOM;
+                  context.strokeStyle = '#ff00ff';
+                  context.strokeRect(center + 0.5, center + 0.5, LOUPE_ZOOM - 1, LOUPE_ZOOM - 1);
+              }
+              
+              function showInspection(inspection) {
+                  inspectPending = false;
+                  if (queuedInspection) {
+                      const next = queuedInspection;
+                      queuedInspection = null;
+                      requestInspection(next);
+                  }
+                  if (!inspection || !inspectedPixel) {
+                      pixelInspector.classList.add('hidden');
+                      return;
+                  }
+                  
+                  drawLoupe(document.getElementById('previousLoupe'), inspection.loupe.previous, inspection.loupe.size);
+                  drawLoupe(document.getElementById('currentLoupe'), inspection.loupe.current, inspection.loupe.size);
+                  
+                  const thresholdInput = document.getElementById('thresholdInput');
+                  const threshold = thresholdInput ? Number(thresholdInput.value) : null;
+                  const formatDelta = value => (value > 0 ? '+' : '') + value;
+                  const rows = ['R', 'G', 'B', 'A'].map((channel, i) => \`
+                      <tr>
+                          <th>\${channel}</th>
+                          <td>\${inspection.previous[i]}</td>
+                          <td>\${inspection.current[i]}</td>
+                          <td class="\${inspection.delta[i] ? 'over' : ''}">\${formatDelta(inspection.delta[i])}</td>
+                      </tr>\`).join('');
+                  
+                  document.getElementById('inspectorValues').innerHTML = \`
+                      <table>
+                          <tr><th>x \${inspection.x}, y \${inspection.y}</th><th>Prev</th><th>Curr</th><th>Δ</th></tr>
+                          \${rows}
+                          <tr>
+                              <th>YIQ</th>
+                              <td colspan="3" class="\${threshold !== null && inspection.distance > threshold ? 'over' : ''}">
+                                  \${inspection.distance.toFixed(3)}\${threshold !== null ? ' / ' + threshold.toFixed(2) : ''}
+                              </td>
+                          </tr>
+                      </table>\`;
+                  pixelInspector.classList.remove('hidden');
+              }
+              
+              if (diffResult) {
+                  document.querySelectorAll('.viewport').forEach(viewport => {
+                      viewport.addEventListener('mousemove', (e) => {
+                          if (isDragging || (pan && pan.moved)) return;
+                          
+                          const transform = getViewTransform(viewport);
+                          const rect = viewport.getBoundingClientRect();
+                          const x = Math.floor((e.clientX - rect.left - transform.x) / transform.scale);
+                          const y = Math.floor((e.clientY - rect.top - transform.y) / transform.scale);
+                          
+                          if (x < 0 || y < 0 || x >= diffResult.width || y >= diffResult.height) {
+                              hideInspector();
+                              return;
+                          }
+                          // Keep the inspector away from the cursor.
+                          pixelInspector.classList.toggle('left', e.clientX > window.innerWidth / 2);
+                          if (inspectedPixel && inspectedPixel.x === x && inspectedPixel.y === y) return;
+                          
+                          inspectedPixel = { x, y };
+                          requestInspection(inspectedPixel);
+                      });
+                      viewport.addEventListener('mouseleave', hideInspector);
+                  });
+              }
+              
+              window.addEventListener('message', (event) => {
+                  const message = event.data;
+                  if (message.command === 'pixelInspected') {
+                      showInspection(message.inspection);
+                      return;
+                  }
+                  if (message.command === 'diffProgress' && message.requestId === diffRequestId) {
+                      document.getElementById('diffProgress').textContent = \`Diffing \${Math.round(message.progress * 100)}%\`;
+                      return;
+                  }
+                  if (message.command !== 'diffUpdated' || message.requestId !== diffRequestId) return;
+                  
+                  document.getElementById('diffControls').classList.remove('busy');
+                  document.getElementById('diffProgress').textContent = '';
+                  if (!message.diff) return;
+                  
+                  diffResult.width = message.diff.width;
+                  diffResult.height = message.diff.height;
+                  diffResult.currentOffset = message.diff.currentOffset;
+                  diffResult.previousOffset = message.diff.previousOffset;
+                  diffResult.regions = message.diff.regions;
+                  document.getElementById('diffImage').src = message.diff.diffImage;
+                  document.getElementById('ssimImage').src = message.diff.ssimImage;
+                  document.querySelectorAll('#diffStage .region-box, #diffStage .ignore-box').forEach(box => box.remove());
+                  document.getElementById('diffStage').insertAdjacentHTML('beforeend', message.regionBoxes + message.ignoreBoxes);
+                  ignoreRegions = message.ignoreRegions.filter(region => region.pattern === ignorePattern);
+                  document.getElementById('diffStatistics').innerHTML = message.statistics;
+                  document.getElementById('alignmentNotice').innerHTML = message.alignmentNotice;
+                  document.querySelectorAll('.region-box, .region-chip').forEach(el => {
+                      el.classList.remove('selected');
+                  });
+                  hideInspector();
+                  applyView();
+                  
+                  if (animation && message.animation) {
+                      animation.frames = message.animation.frames;
+                      document.querySelector('.timeline').outerHTML = message.timeline;
+                      if (playTimer) {
+                          clearTimeout(playTimer);
+                          playTimer = null;
+                      }
+                      selectFrame(currentFrame);
+                  }
+              });
+          </script>
+      </body>
+      </html>
+    `;
+  }
 
-class ImagePreviewEditorProvider
-  implements vscode.CustomReadonlyEditorProvider
-{
-  constructor(private readonly context: vscode.ExtensionContext) {}
+  /** Standalone HTML report for exporting, meant to be opened in a browser. */
+  static getReportContent(
+    summary: ReportSummary,
+    entries: ReportEntry[]
+  ): string {
+    const formatSize = (size: ImageSize | null) =>
+      size ? `${size.width}×${size.height}` : '—';
 
-  async openCustomDocument(
-    uri: vscode.Uri,
-    openContext: vscode.CustomDocumentOpenContext,
-    token: vscode.CancellationToken
-  ): Promise<vscode.CustomDocument> {
-    return { uri, dispose: () => {} };
+    // Paths and labels come from the repository, so nothing in the report
+    // may run script when it is opened in a browser.
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; style-src 'unsafe-inline';">
+    <title>Image Diff Report</title>
+    <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 24px; color: #1f2328; }
+        table { border-collapse: collapse; margin-bottom: 32px; }
+        th, td { padding: 4px 12px; border-bottom: 1px solid #d0d7de; text-align: left; font-size: 13px; }
+        td.number { text-align: right; }
+        section { margin-bottom: 40px; }
+        h2 { font-size: 16px; word-break: break-all; }
+        .images { display: flex; gap: 16px; flex-wrap: wrap; }
+        figure { margin: 0; }
+        figure img { max-width: 480px; border: 1px solid #d0d7de; background: repeating-conic-gradient(#eee 0% 25%, #fff 0% 50%) 0 0 / 16px 16px; }
+        figcaption { font-size: 12px; color: #656d76; }
+    </style>
+</head>
+<body>
+    <h1>Image Diff Report</h1>
+    <p>Generated ${this.escapeHtml(summary.generatedAt)} · threshold ${
+      summary.options.threshold
+    } · alignment ${this.escapeHtml(summary.options.alignment)}</p>
+    <table>
+        <tr><th>File</th><th>Status</th><th>Revisions</th><th>Dimensions</th><th>Changed pixels</th><th>Mismatch</th><th>SSIM</th></tr>
+        ${summary.files
+          .map(
+            (file) => `<tr>
+            <td>${this.escapeHtml(file.path)}</td>
+            <td>${this.escapeHtml(file.status)}</td>
+            <td>${this.escapeHtml(file.previousRevision)} → ${this.escapeHtml(
+              file.currentRevision
+            )}</td>
+            <td>${formatSize(file.previousSize)} → ${formatSize(
+              file.currentSize
+            )}</td>
+            <td class="number">${
+              file.mismatch === null ? '—' : file.mismatch.toLocaleString()
+            }</td>
+            <td class="number">${
+              file.mismatchPercentage === null
+                ? '—'
+                : `${file.mismatchPercentage.toFixed(2)}%`
+            }</td>
+            <td class="number">${
+              file.metrics ? file.metrics.ssim.toFixed(4) : '—'
+            }</td>
+        </tr>`
+          )
+          .join('')}
+    </table>
+    ${entries
+      .map(
+        ({ summary: file, images }) => `<section>
+        <h2>${
+          file.previousPath !== file.path
+            ? `${this.escapeHtml(file.previousPath)} → ${this.escapeHtml(
+                file.path
+              )}`
+            : this.escapeHtml(file.path)
+        }</h2>
+        <div class="images">
+            ${images
+              .map(
+                (image) =>
+                  `<figure><img src="${this.escapeHtml(
+                    image.src
+                  )}" alt="${this.escapeHtml(
+                    image.label
+                  )}"><figcaption>${this.escapeHtml(
+                    image.label
+                  )}</figcaption></figure>`
+              )
+              .join('')}
+        </div>
+    </section>`
+      )
+      .join('')}
+    <script type="application/json" id="summary">${JSON.stringify(
+      summary,
+      null,
+      2
+    ).replace(/</g, '\\u003c')}</script>
+</body>
+</html>
+`;
   }
 
-  async resolveCustomEditor(
-    document: vscode.CustomDocument,
-    webviewPanel: vscode.WebviewPanel,
-    token: vscode.CancellationToken
-  ): Promise<void> {
-    webviewPanel.webview.options = {
-      enableScripts: true,
-      localResourceRoots: [
-        vscode.Uri.file(path.dirname(document.uri.fsPath)),
-        this.context.extensionUri,
-      ],
+  static getBatchViewerContent(options: {
+    from: string;
+    to: string;
+    entries: BatchDiffEntry[];
+    security: WebviewSecurity;
+  }): string {
+    const { from, to, entries, security } = options;
+    const statusLabels: Record<string, string> = {
+      A: 'Added',
+      D: 'Deleted',
+      M: 'Modified',
+      R: 'Renamed',
+      C: 'Copied',
+      T: 'Type changed',
     };
 
-    const imageData = await FileService.readFile(document.uri.fsPath);
-    const imageBase64 = FileService.getImageBase64(
-      imageData,
-      document.uri.fsPath
-    );
-
-    webviewPanel.webview.html = WebviewContentGenerator.getImagePreviewContent(
-      imageBase64,
-      document.uri.fsPath
-    );
-
-    webviewPanel.webview.onDidReceiveMessage(
-      async (message) => {
-        if (message.command === 'openDiff') {
-          await vscode.commands.executeCommand(
-            'imageDiff.compareWithPrevious',
-            document.uri
-          );
-        }
-      },
-      undefined,
-      this.context.subscriptions
-    );
-  }
-}
-
-class WebviewContentGenerator {
-  static getImagePreviewContent(imageBase64: string, filePath: string): string {
     return `
       <!DOCTYPE html>
       <html lang="en">
       <head>
           <meta charset="UTF-8">
           <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Image Preview</title>
+          ${this.getSecurityHeader(security)}
+          <title>Image Diff Report</title>
           <style>
               body {
                   font-family: var(--vscode-font-family);
@@ -425,26 +4438,21 @@ class WebviewContentGenerator {
                   padding: 0;
                   background-color: var(--vscode-editor-background);
                   color: var(--vscode-foreground);
-                  height: 100vh;
-                  display: flex;
-                  flex-direction: column;
               }
               
-              .header {
+              .toolbar {
+                  position: sticky;
+                  top: 0;
                   padding: 8px 12px;
                   background-color: var(--vscode-titleBar-activeBackground);
                   border-bottom: 1px solid var(--vscode-panel-border);
                   display: flex;
                   justify-content: space-between;
                   align-items: center;
-              }
-              
-              .title {
                   font-size: 12px;
-                  color: var(--vscode-descriptionForeground);
               }
               
-              .diff-button {
+              .toolbar-button {
                   padding: 4px 8px;
                   background-color: var(--vscode-button-background);
                   color: var(--vscode-button-foreground);
@@ -453,50 +4461,130 @@ class WebviewContentGenerator {
                   cursor: pointer;
                   font-size: 11px;
                   font-family: var(--vscode-font-family);
-                  display: flex;
-                  align-items: center;
-                  gap: 4px;
               }
               
-              .diff-button:hover {
+              .toolbar-button:hover {
                   background-color: var(--vscode-button-hoverBackground);
               }
               
-              .image-container {
-                  flex: 1;
+              .gallery {
+                  display: grid;
+                  grid-template-columns: repeat(auto-fill, minmax(200px, 1fr));
+                  gap: 12px;
+                  padding: 12px;
+              }
+              
+              .entry {
+                  display: flex;
+                  flex-direction: column;
+                  gap: 6px;
+                  padding: 8px;
+                  border: 1px solid var(--vscode-panel-border);
+                  border-radius: 3px;
+                  cursor: pointer;
+              }
+              
+              .entry:hover {
+                  border-color: var(--vscode-focusBorder);
+                  background-color: var(--vscode-list-hoverBackground);
+              }
+              
+              .thumbnail {
+                  height: 160px;
                   display: flex;
                   align-items: center;
                   justify-content: center;
-                  padding: 20px;
+                  background: repeating-conic-gradient(#808080 0% 25%, #c0c0c0 0% 50%) 0 0 / 16px 16px;
               }
               
-              .image-container img {
+              .thumbnail img {
                   max-width: 100%;
                   max-height: 100%;
-                  object-fit: contain;
-                  border: 1px solid var(--vscode-widget-border);
-                  border-radius: 3px;
+              }
+              
+              .path {
+                  font-size: 12px;
+                  word-break: break-all;
+              }
+              
+              .meta {
+                  display: flex;
+                  justify-content: space-between;
+                  font-size: 11px;
+                  color: var(--vscode-descriptionForeground);
+              }
+              
+              .badge {
+                  padding: 0 4px;
+                  border-radius: 2px;
+                  background-color: var(--vscode-badge-background);
+                  color: var(--vscode-badge-foreground);
               }
           </style>
       </head>
       <body>
-          <div class="header">
-              <div class="title">${path.basename(filePath)}</div>
-              <button class="diff-button" onclick="openDiff()">
-                  <span>📊</span>
-                  <span>Compare with Previous</span>
-              </button>
+          <div class="toolbar">
+              <span>${entries.length} changed image${
+      entries.length === 1 ? '' : 's'
+    } between ${this.escapeHtml(from)} and ${this.escapeHtml(
+      to
+    )}, sorted by mismatch</span>
+              <button class="toolbar-button" data-action="saveReport">Save Report</button>
           </div>
           
-          <div class="image-container">
-              <img src="${imageBase64}" alt="Image Preview">
+          <div class="gallery">
+              ${entries
+                .map(
+                  (entry, index) => `
+              <div class="entry" data-action="openEntry" data-arg="${index}" title="${this.escapeHtml(
+                    `${
+                      entry.file.oldPath !== entry.file.path
+                        ? `${entry.file.oldPath} → ${entry.file.path}`
+                        : entry.file.path
+                    }${entry.error ? `\n${entry.error}` : ''}`
+                  )}">
+                  <div class="thumbnail">
+                      ${
+                        entry.thumbnail
+                          ? `<img src="${
+                              entry.thumbnail
+                            }" alt="${this.escapeHtml(entry.file.path)}">`
+                          : ''
+                      }
+                  </div>
+                  <div class="path">${this.escapeHtml(entry.file.path)}</div>
+                  <div class="meta">
+                      <span class="badge">${
+                        statusLabels[entry.file.status] || entry.file.status
+                      }</span>
+                      <span>${
+                        entry.diff
+                          ? `${entry.diff.mismatchPercentage.toFixed(2)}% · ${
+                              entry.diff.width
+                            }×${entry.diff.height}`
+                          : entry.error
+                          ? 'Cannot read image'
+                          : entry.currentData && entry.previousData
+                          ? 'Cannot compare'
+                          : entry.currentData || entry.previousData
+                          ? ''
+                          : 'Cannot read image'
+                      }</span>
+                  </div>
+              </div>`
+                )
+                .join('')}
           </div>
           
-          <script>
+          <script nonce="${security.nonce}">
               const vscode = acquireVsCodeApi();
               
-              function openDiff() {
-                  vscode.postMessage({ command: 'openDiff' });
+              function openEntry(index) {
+                  vscode.postMessage({ command: 'openEntry', index });
+              }
+              
+              function saveReport() {
+                  vscode.postMessage({ command: 'saveReport' });
               }
           </script>
       </body>
@@ -504,20 +4592,14 @@ class WebviewContentGenerator {
     `;
   }
 
-  static getDiffViewerContent(options: {
-    currentImage: string;
-    previousImage: string;
-    diffImage: string | null;
-    currentLabel: string;
-    previousLabel: string;
+  static getConflictViewerContent(options: {
+    filePath: string;
+    images: Record<ConflictStage, string | null>;
+    diffs: ConflictDiff[];
+    security: WebviewSecurity;
   }): string {
-    const {
-      currentImage,
-      previousImage,
-      diffImage,
-      currentLabel,
-      previousLabel,
-    } = options;
+    const { filePath, images, diffs, security } = options;
+    const stages = Object.keys(CONFLICT_STAGES) as ConflictStage[];
 
     return `
       <!DOCTYPE html>
@@ -525,19 +4607,18 @@ class WebviewContentGenerator {
       <head>
           <meta charset="UTF-8">
           <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Image Pixel Diff</title>
+          ${this.getSecurityHeader(security)}
+          <title>Image Conflict</title>
           <style>
-              * { box-sizing: border-box; }
-              
               body {
                   font-family: var(--vscode-font-family);
-                  font-size: var(--vscode-font-size);
-                  padding: 0;
                   margin: 0;
+                  padding: 0;
                   background-color: var(--vscode-editor-background);
                   color: var(--vscode-foreground);
                   height: 100vh;
-                  overflow: hidden;
+                  display: flex;
+                  flex-direction: column;
               }
               
               .toolbar {
@@ -547,7 +4628,12 @@ class WebviewContentGenerator {
                   display: flex;
                   gap: 8px;
                   align-items: center;
-                  flex-shrink: 0;
+                  font-size: 12px;
+              }
+              
+              .toolbar .title {
+                  margin-right: auto;
+                  color: var(--vscode-descriptionForeground);
               }
               
               .toolbar-button {
@@ -559,336 +4645,655 @@ class WebviewContentGenerator {
                   cursor: pointer;
                   font-size: 11px;
                   font-family: var(--vscode-font-family);
-                  min-width: 60px;
-                  text-align: center;
-                  transition: background-color 0.1s ease;
               }
               
               .toolbar-button:hover {
                   background-color: var(--vscode-button-hoverBackground);
               }
               
-              .toolbar-button.active {
-                  background-color: var(--vscode-button-secondaryBackground);
-                  color: var(--vscode-button-secondaryForeground);
-                  border-color: var(--vscode-focusBorder);
-              }
-              
-              .container {
-                  display: flex;
-                  flex-direction: column;
-                  height: calc(100vh - 41px);
+              .toolbar-button:disabled {
+                  opacity: 0.5;
+                  cursor: default;
               }
               
-              .image-container {
+              .row {
                   flex: 1;
                   display: flex;
-                  align-items: center;
-                  justify-content: center;
-                  background-color: var(--vscode-editor-background);
-                  position: relative;
-                  overflow: hidden;
                   min-height: 0;
+                  border-bottom: 1px solid var(--vscode-panel-border);
               }
               
-              .side-by-side {
-                  display: flex;
-                  width: 100%;
-                  height: 100%;
-              }
-              
-              .side-by-side .image-panel {
+              .image-panel {
                   flex: 1;
                   display: flex;
                   flex-direction: column;
                   align-items: center;
                   justify-content: center;
-                  border-right: 1px solid var(--vscode-panel-border);
-                  padding: 16px;
+                  gap: 8px;
+                  padding: 12px;
                   min-width: 0;
+                  border-right: 1px solid var(--vscode-panel-border);
               }
               
-              .side-by-side .image-panel:last-child {
-                  border-right: none;
-              }
-              
-              .image-panel h3 {
-                  margin: 0 0 12px 0;
-                  font-size: 12px;
-                  font-weight: 600;
-                  color: var(--vscode-descriptionForeground);
-                  text-transform: uppercase;
-                  letter-spacing: 0.5px;
-              }
-              
-              .image-panel img {
-                  max-width: 100%;
-                  max-height: calc(100% - 30px);
-                  object-fit: contain;
-                  border: 1px solid var(--vscode-widget-border);
-                  border-radius: 3px;
-              }
-              
-              .slider-container {
-                  position: relative;
-                  width: 100%;
-                  height: 100%;
-                  overflow: hidden;
-                  display: flex;
-                  align-items: center;
-                  justify-content: center;
-              }
-              
-              .image-wrapper {
-                  position: relative;
-                  width: 100%;
-                  height: 100%;
-                  border: 1px solid var(--vscode-widget-border);
-                  border-radius: 3px;
-                  overflow: hidden;
-              }
-              
-              .slider-container img {
-                  display: block;
-                  width: 100%;
-                  height: 100%;
-                  object-fit: contain;
-              }
-              
-              .slider-container .previous-image {
-                  position: absolute;
-                  top: 0;
-                  left: 0;
-                  z-index: 1;
-              }
-              
-              .slider-container .current-image {
-                  position: absolute;
-                  top: 0;
-                  left: 0;
-                  z-index: 2;
-                  clip-path: polygon(50% 0%, 100% 0%, 100% 100%, 50% 100%);
-              }
-              
-              .slider {
-                  position: absolute;
-                  top: 0;
-                  left: 50%;
-                  width: 2px;
-                  height: 100%;
-                  background-color: var(--vscode-focusBorder);
-                  cursor: ew-resize;
-                  z-index: 3;
-                  transform: translateX(-50%);
-              }
-              
-              .slider::before {
-                  content: '';
-                  position: absolute;
-                  top: 50%;
-                  left: 50%;
-                  width: 12px;
-                  height: 40px;
-                  background-color: var(--vscode-focusBorder);
-                  border-radius: 6px;
-                  transform: translate(-50%, -50%);
-                  box-shadow: 0 2px 4px rgba(0, 0, 0, 0.2);
+              .image-panel:last-child {
+                  border-right: none;
               }
               
-              .diff-container {
-                  display: flex;
-                  align-items: center;
-                  justify-content: center;
-                  width: 100%;
-                  height: 100%;
-                  padding: 16px;
+              .image-panel h3 {
+                  margin: 0;
+                  font-size: 13px;
+                  font-weight: 600;
               }
               
-              .diff-container img {
+              .image-panel img {
                   max-width: 100%;
-                  max-height: 100%;
+                  min-height: 0;
+                  flex: 1;
                   object-fit: contain;
                   border: 1px solid var(--vscode-widget-border);
-                  border-radius: 3px;
               }
               
-              .hidden { display: none !important; }
-              
-              .status-bar {
-                  padding: 4px 12px;
-                  background-color: var(--vscode-statusBar-background);
-                  color: var(--vscode-statusBar-foreground);
-                  border-top: 1px solid var(--vscode-panel-border);
+              .image-panel .caption,
+              .image-panel .placeholder {
                   font-size: 11px;
+                  color: var(--vscode-descriptionForeground);
+              }
+          </style>
+      </head>
+      <body>
+          <div class="toolbar">
+              <span class="title">Merge conflict in ${this.escapeHtml(
+                path.basename(filePath)
+              )}</span>
+              ${stages
+                .map(
+                  (stage) =>
+                    `<button class="toolbar-button" data-action="takeVersion" data-arg='"${stage}"' ${
+                      images[stage] ? '' : 'disabled'
+                    }>Take ${CONFLICT_STAGES[stage].label}</button>`
+                )
+                .join('')}
+          </div>
+          
+          <div class="row">
+              ${stages
+                .map(
+                  (stage) => `
+              <div class="image-panel">
+                  <h3>${CONFLICT_STAGES[stage].label} (:${
+                    CONFLICT_STAGES[stage].stage
+                  }:)</h3>
+                  ${
+                    images[stage]
+                      ? `<img src="${images[stage]}" alt="${CONFLICT_STAGES[stage].label}">`
+                      : '<span class="placeholder">Not present in this conflict</span>'
+                  }
+              </div>`
+                )
+                .join('')}
+          </div>
+          
+          <div class="row">
+              ${diffs
+                .map(
+                  ({ label, diff }) => `
+              <div class="image-panel">
+                  <h3>${label}</h3>
+                  ${
+                    diff
+                      ? `<img src="${diff.diffImage}" alt="${label}">
+                  <span class="caption">${
+                    diff.mismatch
+                      ? `${diff.mismatch.toLocaleString()} px changed (${diff.mismatchPercentage.toFixed(
+                          2
+                        )}%)`
+                      : 'No pixel differences'
+                  }</span>`
+                      : '<span class="placeholder">Cannot compare, one side is missing</span>'
+                  }
+              </div>`
+                )
+                .join('')}
+          </div>
+          
+          <script nonce="${security.nonce}">
+              const vscode = acquireVsCodeApi();
+              
+              function takeVersion(stage) {
+                  vscode.postMessage({ command: 'takeVersion', stage });
+              }
+          </script>
+      </body>
+      </html>
+    `;
+  }
+
+  static getVersionSelector(
+    available: VersionOption[],
+    content: DiffViewContent
+  ): string {
+    const select = (id: string, selected = '') => `
+                  <select id="${id}" class="version-select">
+                      ${
+                        available.some((option) => option.value === selected)
+                          ? ''
+                          : '<option value="" selected>None</option>'
+                      }
+                      ${available
+                        .map(
+                          ({ value, label }) =>
+                            `<option value="${value}" ${
+                              value === selected ? 'selected' : ''
+                            }>${this.escapeHtml(label)}</option>`
+                        )
+                        .join('')}
+                  </select>`;
+
+    return `
+              <div class="version-selector" title="Versions to compare">
+                  ${select('previousVersionInput', content.previousVersion)}
+                  <span>↔</span>
+                  ${select('currentVersionInput', content.currentVersion)}
+              </div>`;
+  }
+
+  /**
+   * Commit details of both versions, buttons to step to the next older or
+   * newer pair and a filmstrip of every version in the history.
+   */
+  static getHistoryBar(
+    available: VersionOption[],
+    content: DiffViewContent,
+    thumbnails: Map<string, string>,
+    nonce: string
+  ): string {
+    const values = available.map((item) => item.value);
+    const previousIndex = values.indexOf(content.previousVersion || '');
+    const currentIndex = values.indexOf(content.currentVersion || '');
+    const describe = (option?: VersionOption) => {
+      if (!option) return '<span class="commit-info">—</span>';
+      if (!option.commit) {
+        return `<span class="commit-info"><strong>${option.label}</strong> working tree</span>`;
+      }
+      const { shortHash, author, date, subject } = option.commit;
+      return `<span class="commit-info" title="${this.escapeHtml(subject)}">
+                      <strong>${shortHash}</strong>
+                      ${this.escapeHtml(subject)}
+                      <span class="commit-meta">${this.escapeHtml(
+                        author
+                      )}, ${new Date(date).toLocaleString()}</span>
+                  </span>`;
+    };
+
+    return `
+          <style>
+              .history-bar {
                   display: flex;
                   align-items: center;
-                  gap: 16px;
+                  gap: 8px;
+                  padding: 4px 12px;
+                  font-size: 11px;
+                  border-bottom: 1px solid var(--vscode-panel-border);
                   flex-shrink: 0;
               }
               
-              .status-item {
-                  display: flex;
-                  align-items: center;
-                  gap: 4px;
+              .history-bar button,
+              .filmstrip-item {
+                  background-color: var(--vscode-button-secondaryBackground);
+                  color: var(--vscode-button-secondaryForeground);
+                  border: 1px solid var(--vscode-button-border, transparent);
+                  border-radius: 2px;
+                  cursor: pointer;
+                  font-size: 11px;
+                  font-family: var(--vscode-font-family);
               }
               
-              .status-icon {
-                  width: 12px;
-                  height: 12px;
-                  opacity: 0.8;
+              .history-bar button:disabled {
+                  opacity: 0.4;
+                  cursor: default;
               }
-          </style>
-      </head>
-      <body>
-          <div class="toolbar">
-              <button id="sideBySideBtn" class="toolbar-button active" onclick="setMode('sideBySide')">Side by Side</button>
-              <button id="sliderBtn" class="toolbar-button" onclick="setMode('slider')">Swipe</button>
-              ${
-                diffImage
-                  ? '<button id="diffBtn" class="toolbar-button" onclick="setMode(\'diff\')">Difference</button>'
-                  : ''
+              
+              .commit-info {
+                  flex: 1;
+                  min-width: 0;
+                  overflow: hidden;
+                  white-space: nowrap;
+                  text-overflow: ellipsis;
               }
-          </div>
-          
-          <div class="container">
-              <div id="sideBySideMode" class="image-container">
-                  <div class="side-by-side">
-                      <div class="image-panel">
-                          <h3>${previousLabel}</h3>
-                          <img src="${previousImage}" alt="Previous Version">
-                      </div>
-                      <div class="image-panel">
-                          <h3>${currentLabel}</h3>
-                          <img src="${currentImage}" alt="Current Version">
-                      </div>
-                  </div>
-              </div>
               
-              <div id="sliderMode" class="image-container hidden">
-                  <div class="slider-container">
-                      <div class="image-wrapper">
-                          <img class="previous-image" src="${previousImage}" alt="Previous Version">
-                          <img class="current-image" src="${currentImage}" alt="Current Version">
-                          <div class="slider" id="slider"></div>
-                      </div>
-                  </div>
-              </div>
+              .commit-meta {
+                  color: var(--vscode-descriptionForeground);
+                  margin-left: 6px;
+              }
               
-              ${
-                diffImage
-                  ? `
-              <div id="diffMode" class="image-container hidden">
-                  <div class="diff-container">
-                      <img src="${diffImage}" alt="Diff Image">
-                  </div>
-              </div>
-              `
-                  : ''
+              .filmstrip {
+                  display: flex;
+                  gap: 4px;
+                  padding: 4px 12px;
+                  overflow-x: auto;
+                  border-bottom: 1px solid var(--vscode-panel-border);
+                  flex-shrink: 0;
               }
-          </div>
-          
-          <div class="status-bar">
-              <div class="status-item">
-                  <span class="status-icon">📷</span>
-                  <span>Image Comparison</span>
-              </div>
-              <div class="status-item">
-                  <span class="status-icon">⚡</span>
-                  <span>Drag slider to compare • Press 1/2/3 to switch modes</span>
-              </div>
-          </div>
-          
-          <script>
-              let currentMode = 'sideBySide';
-              let isDragging = false;
               
-              function setMode(mode) {
-                  document.querySelectorAll('.toolbar-button').forEach(btn => {
-                      btn.classList.remove('active');
-                  });
-                  
-                  if (mode === 'sideBySide') {
-                      document.getElementById('sideBySideBtn').classList.add('active');
-                  } else if (mode === 'slider') {
-                      document.getElementById('sliderBtn').classList.add('active');
-                  } else if (mode === 'diff') {
-                      const diffBtn = document.getElementById('diffBtn');
-                      if (diffBtn) diffBtn.classList.add('active');
-                  }
-                  
-                  document.getElementById('sideBySideMode').classList.add('hidden');
-                  document.getElementById('sliderMode').classList.add('hidden');
-                  if (document.getElementById('diffMode')) {
-                      document.getElementById('diffMode').classList.add('hidden');
-                  }
-                  
-                  currentMode = mode;
-                  if (mode === 'sideBySide') {
-                      document.getElementById('sideBySideMode').classList.remove('hidden');
-                  } else if (mode === 'slider') {
-                      document.getElementById('sliderMode').classList.remove('hidden');
-                  } else if (mode === 'diff') {
-                      document.getElementById('diffMode').classList.remove('hidden');
-                  }
+              .filmstrip-item {
+                  display: flex;
+                  flex-direction: column;
+                  align-items: center;
+                  gap: 2px;
+                  padding: 2px;
+                  flex-shrink: 0;
               }
               
-              const slider = document.getElementById('slider');
-              const imageWrapper = document.querySelector('.image-wrapper');
-              const currentImage = document.querySelector('.current-image');
+              .filmstrip-item.selected {
+                  border-color: var(--vscode-focusBorder);
+              }
               
-              function updateSliderPosition(clientX) {
-                  if (!imageWrapper) return;
-                  
-                  const rect = imageWrapper.getBoundingClientRect();
-                  const x = clientX - rect.left;
-                  const percentage = Math.max(0, Math.min(100, (x / rect.width) * 100));
-                  
-                  slider.style.left = percentage + '%';
-                  currentImage.style.clipPath = \`polygon(\${percentage}% 0%, 100% 0%, 100% 100%, \${percentage}% 100%)\`;
+              .filmstrip-item .frame {
+                  width: 72px;
+                  height: 48px;
+                  display: flex;
+                  align-items: center;
+                  justify-content: center;
+                  background: repeating-conic-gradient(#808080 0% 25%, #c0c0c0 0% 50%) 0 0 / 8px 8px;
               }
               
-              if (slider) {
-                  slider.addEventListener('mousedown', (e) => {
-                      isDragging = true;
-                      e.preventDefault();
-                      document.body.style.cursor = 'ew-resize';
-                  });
+              .filmstrip-item img {
+                  max-width: 100%;
+                  max-height: 100%;
+              }
+          </style>
+          <div class="history-bar">
+              <button data-action="stepHistory" data-arg='"older"' title="Compare the previous pair of versions ([)" ${
+                previousIndex < available.length - 1 ? '' : 'disabled'
+              }>◀ Older</button>
+              ${describe(available[previousIndex])}
+              <span>→</span>
+              ${describe(available[currentIndex])}
+              <button data-action="stepHistory" data-arg='"newer"' title="Compare the next pair of versions (])" ${
+                currentIndex > 0 ? '' : 'disabled'
+              }>Newer ▶</button>
+          </div>
+          <div class="filmstrip">
+              ${available
+                .map(
+                  ({ value, label }, index) => `
+              <button class="filmstrip-item${
+                index === previousIndex || index === currentIndex
+                  ? ' selected'
+                  : ''
+              }" data-version="${value}" data-action="showHistoryVersion" data-arg='"${value}"' title="${this.escapeHtml(
+                    label
+                  )}">
+                  <span class="frame">${
+                    thumbnails.has(value)
+                      ? `<img src="${thumbnails.get(
+                          value
+                        )}" alt="${this.escapeHtml(label)}">`
+                      : ''
+                  }</span>
+                  <span>${this.escapeHtml(label)}</span>
+              </button>`
+                )
+                .join('')}
+          </div>
+          <script nonce="${nonce}">
+              function stepHistory(direction) {
+                  vscode.postMessage({ command: 'stepHistory', direction });
               }
               
-              if (imageWrapper) {
-                  imageWrapper.addEventListener('mousedown', (e) => {
-                      if (currentMode === 'slider') {
-                          isDragging = true;
-                          updateSliderPosition(e.clientX);
-                          document.body.style.cursor = 'ew-resize';
-                      }
-                  });
+              function showHistoryVersion(version) {
+                  vscode.postMessage({ command: 'stepHistory', version });
               }
               
-              document.addEventListener('mousemove', (e) => {
-                  if (!isDragging || currentMode !== 'slider') return;
-                  updateSliderPosition(e.clientX);
+              document.addEventListener('keydown', (e) => {
+                  if (e.target.tagName === 'INPUT' || e.target.tagName === 'SELECT') return;
+                  if (e.key === '[') stepHistory('older');
+                  else if (e.key === ']') stepHistory('newer');
               });
               
-              document.addEventListener('mouseup', () => {
-                  isDragging = false;
-                  document.body.style.cursor = 'default';
+              window.addEventListener('message', (event) => {
+                  const message = event.data;
+                  if (message.command !== 'historyThumbnail') return;
+                  
+                  const item = document.querySelector(\`.filmstrip-item[data-version="\${message.version}"] .frame\`);
+                  if (item && !item.firstChild) {
+                      const img = document.createElement('img');
+                      img.src = message.src;
+                      item.appendChild(img);
+                  }
               });
               
-              document.querySelectorAll('img').forEach(img => {
-                  img.addEventListener('dragstart', (e) => e.preventDefault());
-              });
+              const selectedFrame = document.querySelector('.filmstrip-item.selected');
+              if (selectedFrame) selectedFrame.scrollIntoView({ inline: 'center' });
               
-              document.addEventListener('keydown', (e) => {
-                  if (e.key === '1') setMode('sideBySide');
-                  else if (e.key === '2') setMode('slider');
-                  else if (e.key === '3' && document.getElementById('diffMode')) setMode('diff');
+              // Asks for the thumbnails of frames that come into view.
+              const frameObserver = new IntersectionObserver((observed) => {
+                  observed.filter((entry) => entry.isIntersecting).forEach(({ target }) => {
+                      frameObserver.unobserve(target);
+                      vscode.postMessage({ command: 'loadThumbnail', version: target.dataset.version });
+                  });
+              }, { root: document.querySelector('.filmstrip'), rootMargin: '0px 200px' });
+              document.querySelectorAll('.filmstrip-item').forEach((item) => {
+                  if (!item.querySelector('img')) frameObserver.observe(item);
               });
-          </script>
-      </body>
-      </html>
+          </script>`;
+  }
+
+  /** Escapes text for HTML content and double-quoted attributes. */
+  private static escapeHtml(text: string): string {
+    return text.replace(
+      /[&<>"]/g,
+      (char) =>
+        ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[char] ||
+        char)
+    );
+  }
+
+  /**
+   * Allows only images served to the webview, inline styles and the scripts
+   * carrying the page's nonce. Inline event handlers are blocked, so elements
+   * name a global function in `data-action`, called with the JSON value in
+   * `data-arg`.
+   */
+  private static getSecurityHeader({
+    cspSource,
+    nonce,
+  }: WebviewSecurity): string {
+    return `<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${cspSource} data:; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+          <script nonce="${nonce}">
+              document.addEventListener('click', event => {
+                  const target = event.target.closest('[data-action]');
+                  if (!target) return;
+                  const { action, arg } = target.dataset;
+                  window[action](...(arg === undefined ? [] : [JSON.parse(arg)]));
+              });
+          </script>`;
+  }
+
+  private static getDiffControls(options: DiffOptions): string {
+    const alignments: [AlignmentMode, string][] = [
+      ['top-left', 'Top Left'],
+      ['top', 'Top'],
+      ['top-right', 'Top Right'],
+      ['left', 'Left'],
+      ['center', 'Center'],
+      ['right', 'Right'],
+      ['bottom-left', 'Bottom Left'],
+      ['bottom', 'Bottom'],
+      ['bottom-right', 'Bottom Right'],
+      ['scale', 'Scale to Fit'],
+      ['auto', 'Auto (Best Offset)'],
+    ];
+
+    return `
+              <div id="diffControls" class="diff-controls hidden">
+                  <label title="How to align images with different dimensions">
+                      Align
+                      <select id="alignmentInput">
+                          ${alignments
+                            .map(
+                              ([value, label]) =>
+                                `<option value="${value}" ${
+                                  value === options.alignment ? 'selected' : ''
+                                }>${label}</option>`
+                            )
+                            .join('')}
+                      </select>
+                  </label>
+                  <label title="Matching threshold, smaller is more sensitive">
+                      Threshold
+                      <input id="thresholdInput" type="range" min="0" max="1" step="0.01" value="${
+                        options.threshold
+                      }">
+                      <span id="thresholdValue">${options.threshold}</span>
+                  </label>
+                  <label title="Opacity of the original image in the diff output">
+                      Alpha
+                      <input id="alphaInput" type="range" min="0" max="1" step="0.01" value="${
+                        options.alpha
+                      }">
+                      <span id="alphaValue">${options.alpha}</span>
+                  </label>
+                  <label title="Count anti-aliased pixels as differences">
+                      <input id="includeAAInput" type="checkbox" ${
+                        options.includeAA ? 'checked' : ''
+                      }>
+                      Include AA
+                  </label>
+                  <label title="Draw the diff over a transparent background">
+                      <input id="diffMaskInput" type="checkbox" ${
+                        options.diffMask ? 'checked' : ''
+                      }>
+                      Mask
+                  </label>
+                  <label title="Color of different pixels">
+                      Diff
+                      <input id="diffColorInput" type="color" value="${
+                        options.diffColor
+                      }">
+                  </label>
+                  <label title="Color of pixels that became darker">
+                      <input id="diffColorAltEnabledInput" type="checkbox" ${
+                        options.diffColorAlt ? 'checked' : ''
+                      }>
+                      Darker
+                      <input id="diffColorAltInput" type="color" value="${
+                        options.diffColorAlt || options.diffColor
+                      }">
+                  </label>
+                  <label title="Color of anti-aliased pixels">
+                      AA
+                      <input id="aaColorInput" type="color" value="${
+                        options.aaColor
+                      }">
+                  </label>
+                  <button id="ssimOverlayBtn" class="toolbar-button" data-action="toggleSsimOverlay" title="Overlay a heatmap of structural differences, from yellow for slight to red for strong ones">SSIM Map</button>
+                  <button id="ignoreRegionBtn" class="toolbar-button" data-action="toggleIgnoreDrawing" title="Drag over the diff to leave an area out of the comparison">Ignore Area</button>
+                  <span id="diffProgress" class="diff-progress"></span>
+              </div>
+    `;
+  }
+
+  static getAlignmentNotice(diff: DiffResult): string {
+    const { currentSize, previousSize, currentOffset, previousOffset } = diff;
+    const notices: string[] = [];
+
+    if (
+      currentSize.width !== previousSize.width ||
+      currentSize.height !== previousSize.height
+    ) {
+      notices.push(
+        `Dimensions changed from ${previousSize.width}×${previousSize.height} to ${currentSize.width}×${currentSize.height}`
+      );
+    }
+    if (diff.alignment === 'auto') {
+      notices.push(
+        `Best offset: ${previousOffset.x - currentOffset.x}, ${
+          previousOffset.y - currentOffset.y
+        } px`
+      );
+    }
+
+    return notices
+      .map((notice) => `<div class="notice">⚠ ${notice}</div>`)
+      .join('');
+  }
+
+  static getRegionBoxes(diff: DiffResult): string {
+    return diff.regions
+      .map(
+        (region, index) =>
+          `<div class="region-box" data-region="${index}" style="left: ${
+            (region.x / diff.width) * 100
+          }%; top: ${(region.y / diff.height) * 100}%; width: ${
+            (region.width / diff.width) * 100
+          }%; height: ${(region.height / diff.height) * 100}%;"></div>`
+      )
+      .join('');
+  }
+
+  /**
+   * Hatched boxes over the ignore regions. Regions saved under the image's own
+   * path get a button to remove them.
+   */
+  static getIgnoreBoxes(
+    diff: DiffResult,
+    regions: IgnoreRegion[],
+    ownPattern: string
+  ): string {
+    let own = 0;
+
+    return regions
+      .map((region) => {
+        const style = `left: ${(region.x / diff.width) * 100}%; top: ${
+          (region.y / diff.height) * 100
+        }%; width: ${(region.width / diff.width) * 100}%; height: ${
+          (region.height / diff.height) * 100
+        }%;`;
+        if (region.pattern !== ownPattern) {
+          return `<div class="ignore-box shared" style="${style}" title="Ignored by '${this.escapeHtml(
+            region.pattern
+          )}' in ${IgnoreRegionService.FILE_NAME}"></div>`;
+        }
+
+        const index = own++;
+        return `<div class="ignore-box" data-ignore="${index}" style="${style}"><button title="Compare this area again" data-action="removeIgnoreRegion" data-arg="${index}">×</button></div>`;
+      })
+      .join('');
+  }
+
+  static getDiffStatistics(diff: DiffResult, budget: number): string {
+    const { currentSize, previousSize, mismatch, mismatchPercentage, regions } =
+      diff;
+    const sizeChanged =
+      currentSize.width !== previousSize.width ||
+      currentSize.height !== previousSize.height;
+    const dimensions = sizeChanged
+      ? `${previousSize.width}×${previousSize.height} → ${currentSize.width}×${currentSize.height}`
+      : `${currentSize.width}×${currentSize.height}`;
+    const summary = mismatch
+      ? `${mismatch.toLocaleString()} px changed (${mismatchPercentage.toFixed(
+          2
+        )}%)`
+      : 'No pixel differences';
+    const { ssim, psnr, mae, hashDistance } = diff.metrics;
+
+    return `
+              <div class="status-item">
+                  <span class="status-icon">📊</span>
+                  <span>${summary}</span>
+              </div>
+              <div class="status-item" title="SSIM: structural similarity, 1 when identical&#10;PSNR: peak signal-to-noise ratio&#10;MAE: mean absolute error of the R, G, B and A channels&#10;pHash: differing bits of the perceptual hashes">
+                  <span class="status-icon">🧮</span>
+                  <span>SSIM ${ssim.toFixed(4)} · PSNR ${
+      psnr === null ? '∞' : psnr.toFixed(1)
+    } dB · MAE ${mae
+      .map((value) => value.toFixed(1))
+      .join('/')} · pHash ${hashDistance}/64</span>
+              </div>
+              <div class="status-item">
+                  <span class="status-icon">📐</span>
+                  <span>${dimensions}</span>
+              </div>
+              <div class="status-item">
+                  ${
+                    exceedsBudget(diff, budget)
+                      ? `<span class="status-icon">⛔</span><span>Over budget of ${budget}%</span>`
+                      : `<span class="status-icon">✅</span><span>Within budget of ${budget}%</span>`
+                  }
+              </div>
+              ${
+                regions.length
+                  ? `
+              <div class="status-item status-regions">
+                  <span class="status-icon">🔍</span>
+                  ${regions
+                    .map(
+                      (region, index) =>
+                        `<button class="region-chip" data-region="${index}" title="${region.pixels.toLocaleString()} px changed" data-action="zoomToRegion" data-arg="${index}">${
+                          region.width
+                        }×${region.height} @ ${region.x},${region.y}</button>`
+                    )
+                    .join('')}
+                  <button id="resetZoomBtn" class="region-chip hidden" data-action="resetZoom">Reset zoom</button>
+              </div>`
+                  : ''
+              }
+    `;
+  }
+
+  static getAnimationTimeline(animation: AnimationDiff): string {
+    const { frames, currentFrameCount, previousFrameCount } = animation;
+    const delayChanges = frames.filter(
+      (frame) =>
+        frame.currentDelay !== null &&
+        frame.previousDelay !== null &&
+        frame.currentDelay !== frame.previousDelay
+    ).length;
+
+    const warnings: string[] = [];
+    if (currentFrameCount !== previousFrameCount) {
+      warnings.push(
+        `Frame count changed: ${previousFrameCount} → ${currentFrameCount}`
+      );
+    }
+    if (delayChanges > 0) {
+      warnings.push(
+        `Frame delay changed on ${delayChanges} frame${
+          delayChanges === 1 ? '' : 's'
+        }`
+      );
+    }
+
+    const cells = frames
+      .map((frame) => {
+        const unmatched = frame.mismatch === null;
+        const delayChanged =
+          !unmatched && frame.currentDelay !== frame.previousDelay;
+        const classes = [
+          'frame-cell',
+          unmatched ? 'unmatched' : frame.mismatch ? 'changed' : '',
+          delayChanged ? 'delay-changed' : '',
+        ]
+          .filter(Boolean)
+          .join(' ');
+        const mismatch = unmatched
+          ? frame.currentImage
+            ? 'added'
+            : 'removed'
+          : `${frame.mismatch} px`;
+        const delay = delayChanged
+          ? `${frame.previousDelay}ms → ${frame.currentDelay}ms`
+          : `${frame.currentDelay ?? frame.previousDelay}ms`;
+
+        return `<button class="${classes}" data-action="selectFrame" data-arg="${
+          frame.index
+        }">
+                      <span>#${frame.index + 1}</span>
+                      <span class="frame-mismatch">${mismatch}</span>
+                      <span class="frame-delay">${delay}</span>
+                  </button>`;
+      })
+      .join('');
+
+    return `
+              <div class="timeline">
+                  <div class="timeline-header">
+                      <button id="playBtn" class="toolbar-button" data-action="togglePlay">▶ Play</button>
+                      <span id="frameLabel"></span>
+                      ${warnings
+                        .map(
+                          (warning) =>
+                            `<span class="timeline-warning">⚠ ${warning}</span>`
+                        )
+                        .join('')}
+                  </div>
+                  <div class="timeline-frames">${cells}</div>
+              </div>
     `;
   }
 }
 
-export function deactivate() {}
+export function deactivate() {
+  DiffWorkerPool.dispose();
+}
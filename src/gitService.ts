@@ -0,0 +1,530 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+
+export type ScmVersion = 'HEAD' | 'index' | 'workingTree';
+
+export type ScmVersions = Record<ScmVersion, Buffer | null>;
+
+export type ConflictStage = 'base' | 'ours' | 'theirs';
+
+export type ConflictVersions = Record<ConflictStage, Buffer | null>;
+
+export interface GitVersionOptions {
+  filePath: string;
+  revision: string;
+  workspaceRoot: string;
+}
+
+export interface GitCommitInfo {
+  hash: string;
+  shortHash: string;
+  author: string;
+  date: string;
+  subject: string;
+  filePath: string;
+}
+
+export interface CommittedVersion {
+  data: Buffer;
+  /** Commit holding this version; `filePath` is the file's path in it. */
+  commit: GitCommitInfo;
+}
+
+export interface ChangedFile {
+  /** Status letter from `git diff --name-status`, e.g. A, M, D or R. */
+  status: string;
+  path: string;
+  /** Path in the older revision, for renames and copies. */
+  oldPath: string;
+}
+
+/** Index stages holding each side of a merge conflict. */
+export const CONFLICT_STAGES: Record<
+  ConflictStage,
+  { stage: number; label: string }
+> = {
+  base: { stage: 1, label: 'Base' },
+  ours: { stage: 2, label: 'Ours' },
+  theirs: { stage: 3, label: 'Theirs' },
+};
+
+export type GitBlobErrorReason = 'missing' | 'tooLarge' | 'lfsPointer';
+
+/** Raised when a file cannot be read from a revision. */
+export class GitBlobError extends Error {
+  constructor(readonly reason: GitBlobErrorReason, message: string) {
+    super(message);
+    this.name = 'GitBlobError';
+  }
+}
+
+interface LfsPointer {
+  oid: string;
+  size: number;
+}
+
+/** Hash of the empty tree, used as the parent of root commits. */
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+export class GitService {
+  /** Largest blob read from Git, in bytes. */
+  static readonly MAX_BLOB_SIZE = 512 * 1024 * 1024;
+
+  /**
+   * Reads a file as of a revision, or from the index when the revision is
+   * empty. Returns null when the file does not exist in that revision.
+   */
+  static async getVersion(options: GitVersionOptions): Promise<Buffer | null> {
+    try {
+      return await this.readBlob(options);
+    } catch (error) {
+      if (error instanceof GitBlobError && error.reason === 'missing') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Like `getVersion`, but throws a `GitBlobError` explaining why a file is
+   * missing, too large or only available as a Git LFS pointer. LFS pointers
+   * are resolved from the local LFS store.
+   */
+  static async readBlob(options: GitVersionOptions): Promise<Buffer> {
+    const { filePath, revision, workspaceRoot } = options;
+    const relativePath = this.toGitPath(filePath, workspaceRoot);
+    const object = `${revision}:${relativePath}`;
+    const description = `'${relativePath}' ${
+      revision ? `at ${revision}` : 'in the index'
+    }`;
+
+    // The object is looked up once and then read by its id, so that a ref
+    // moving in between cannot mix up two versions.
+    const [id, type, size] = (
+      await this.run(
+        ['cat-file', '--batch-check=%(objectname) %(objecttype) %(objectsize)'],
+        workspaceRoot,
+        Buffer.from(`${object}\n`)
+      )
+    )
+      .toString('utf8')
+      .trim()
+      .split(' ');
+    if (type !== 'blob') {
+      return this.explainMissing(object, description, workspaceRoot);
+    }
+    this.checkSize(Number(size), description);
+
+    const content = await this.run(['cat-file', 'blob', id], workspaceRoot);
+    const pointer = this.parseLfsPointer(content);
+    if (!pointer) {
+      return content;
+    }
+
+    this.checkSize(pointer.size, description);
+    return this.smudgeLfsPointer(
+      content,
+      pointer,
+      relativePath,
+      description,
+      workspaceRoot
+    );
+  }
+
+  /**
+   * Throws why `cat-file --batch-check` found no blob: a `GitBlobError` when
+   * the path is not in the revision, or git's own error when the revision
+   * itself cannot be read.
+   */
+  private static async explainMissing(
+    object: string,
+    description: string,
+    workspaceRoot: string
+  ): Promise<never> {
+    try {
+      await this.run(['cat-file', '-e', object], workspaceRoot);
+    } catch (error) {
+      if (
+        !(error instanceof Error) ||
+        !this.isMissingPathError(error.message)
+      ) {
+        throw error;
+      }
+    }
+    throw new GitBlobError('missing', `${description} does not exist`);
+  }
+
+  /**
+   * Whether git failed because a path is not in a revision or index stage.
+   * Nothing exists at HEAD before the first commit either.
+   */
+  private static isMissingPathError(message: string): boolean {
+    return /fatal: (path '.*' (does not exist|exists on disk, but not in|is in the index, but not at stage)|invalid object name 'HEAD')/.test(
+      message
+    );
+  }
+
+  private static checkSize(size: number, description: string) {
+    if (size > this.MAX_BLOB_SIZE) {
+      const megabytes = (bytes: number) => `${Math.round(bytes / 1048576)} MB`;
+      throw new GitBlobError(
+        'tooLarge',
+        `${description} is ${megabytes(size)}, larger than the ${megabytes(
+          this.MAX_BLOB_SIZE
+        )} limit`
+      );
+    }
+  }
+
+  private static parseLfsPointer(content: Buffer): LfsPointer | null {
+    if (
+      content.length > 1024 ||
+      !content.toString('utf8').startsWith('version https://git-lfs')
+    ) {
+      return null;
+    }
+
+    const text = content.toString('utf8');
+    const oid = /^oid sha256:([0-9a-f]{64})$/m.exec(text);
+    const size = /^size (\d+)$/m.exec(text);
+    return oid && size ? { oid: oid[1], size: Number(size[1]) } : null;
+  }
+
+  /**
+   * Replaces an LFS pointer with the object it points to. Only objects that
+   * are already in the local store are used, so this never downloads.
+   */
+  private static async smudgeLfsPointer(
+    content: Buffer,
+    pointer: LfsPointer,
+    relativePath: string,
+    description: string,
+    workspaceRoot: string
+  ): Promise<Buffer> {
+    const { oid } = pointer;
+    const objectPath = path.resolve(
+      workspaceRoot,
+      (
+        await this.exec(
+          [
+            'rev-parse',
+            '--git-path',
+            `lfs/objects/${oid.slice(0, 2)}/${oid.slice(2, 4)}/${oid}`,
+          ],
+          workspaceRoot
+        )
+      ).trim()
+    );
+
+    if (!fs.existsSync(objectPath)) {
+      throw new GitBlobError(
+        'lfsPointer',
+        `${description} is a Git LFS pointer and the object is not in the local store. Run 'git lfs fetch' to download it`
+      );
+    }
+
+    try {
+      return await this.run(
+        ['lfs', 'smudge', '--', relativePath],
+        workspaceRoot,
+        content
+      );
+    } catch (error) {
+      throw new GitBlobError(
+        'lfsPointer',
+        `${description} is a Git LFS pointer that could not be resolved: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  }
+
+  /**
+   * Finds the latest committed version of a file that differs from the
+   * working tree, following renames: the last commit touching the file when
+   * it has local changes, otherwise the commit that changed it before that.
+   */
+  static async getPreviousVersion(
+    filePath: string,
+    workspaceRoot: string
+  ): Promise<CommittedVersion> {
+    const [history, current] = await Promise.all([
+      this.getFileHistory(filePath, workspaceRoot),
+      fs.existsSync(filePath) ? fs.promises.readFile(filePath) : null,
+    ]);
+
+    for (const commit of history) {
+      const data = await this.readBlob({
+        filePath: path.join(workspaceRoot, commit.filePath),
+        revision: commit.hash,
+        workspaceRoot,
+      });
+      if (!current || !data.equals(current)) {
+        return { data, commit };
+      }
+    }
+
+    throw new GitBlobError(
+      'missing',
+      `'${this.toGitPath(
+        filePath,
+        workspaceRoot
+      )}' has no earlier committed version`
+    );
+  }
+
+  /**
+   * Reads the HEAD, index and working tree versions of a file. Versions the
+   * file does not exist in are null.
+   */
+  static async getScmVersions(
+    filePath: string,
+    workspaceRoot: string,
+    originalPath = filePath
+  ): Promise<ScmVersions> {
+    const [HEAD, index] = await Promise.all([
+      this.getVersion({
+        filePath: originalPath,
+        revision: 'HEAD',
+        workspaceRoot,
+      }),
+      this.getVersion({ filePath, revision: '', workspaceRoot }),
+    ]);
+    const workingTree = fs.existsSync(filePath)
+      ? await fs.promises.readFile(filePath)
+      : null;
+
+    return { HEAD, index, workingTree };
+  }
+
+  /**
+   * Reads the base, ours and theirs stages of a conflicted file from the
+   * index. Stages missing from the conflict, such as the base of a file added
+   * on both sides, are null.
+   */
+  static async getConflictVersions(
+    filePath: string,
+    workspaceRoot: string
+  ): Promise<ConflictVersions> {
+    const [base, ours, theirs] = await Promise.all(
+      (['base', 'ours', 'theirs'] as ConflictStage[]).map((stage) =>
+        this.getVersion({
+          filePath,
+          revision: `:${CONFLICT_STAGES[stage].stage}`,
+          workspaceRoot,
+        })
+      )
+    );
+    return { base, ours, theirs };
+  }
+
+  /** Top-level directory of the repository containing `cwd`, if any. */
+  static async getRepositoryRoot(cwd: string): Promise<string | null> {
+    try {
+      const output = await this.exec(['rev-parse', '--show-toplevel'], cwd);
+      return path.resolve(output.trim());
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async stageFile(filePath: string, workspaceRoot: string) {
+    await this.run(
+      ['add', '--', this.toGitPath(filePath, workspaceRoot)],
+      workspaceRoot
+    );
+  }
+
+  static async getCommitTime(
+    revision: string,
+    cwd: string
+  ): Promise<number | null> {
+    try {
+      const output = await this.exec(
+        ['log', '-1', '--format=%ct', revision, '--'],
+        cwd
+      );
+      return Number(output.trim()) || null;
+    } catch (error) {
+      console.error(`Cannot get commit time of '${revision}':`, error);
+      return null;
+    }
+  }
+
+  static async getRecentCommits(
+    workspaceRoot: string,
+    limit = 100
+  ): Promise<GitCommitInfo[]> {
+    try {
+      const output = await this.exec(
+        ['log', `-${limit}`, '--format=%x1e%H%x1f%h%x1f%an%x1f%aI%x1f%s'],
+        workspaceRoot
+      );
+
+      return output
+        .split('\x1e')
+        .filter((record) => record.trim())
+        .map((record) => {
+          const [hash, shortHash, author, date, subject] = record
+            .trim()
+            .split('\x1f');
+          return { hash, shortHash, author, date, subject, filePath: '' };
+        });
+    } catch (error) {
+      console.error('Cannot get recent commits:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Turns a commit or range into the two revisions to compare. `a..b`
+   * compares the two ends, `a...b` compares `b` with the merge base and a
+   * single commit is compared with its parent.
+   */
+  static async resolveRange(
+    range: string,
+    workspaceRoot: string
+  ): Promise<{ from: string; to: string }> {
+    const git = async (args: string[]) =>
+      (await this.exec(args, workspaceRoot)).trim();
+
+    if (range.includes('...')) {
+      const [from, to] = range.split('...');
+      return {
+        from: await git(['merge-base', from || 'HEAD', to || 'HEAD']),
+        to: to || 'HEAD',
+      };
+    }
+    if (range.includes('..')) {
+      const [from, to] = range.split('..');
+      return { from: from || 'HEAD', to: to || 'HEAD' };
+    }
+
+    try {
+      return {
+        from: await git(['rev-parse', '--verify', `${range}^`]),
+        to: range,
+      };
+    } catch (error) {
+      // A root commit is compared with the empty tree.
+      return { from: EMPTY_TREE, to: range };
+    }
+  }
+
+  static async getChangedFiles(
+    from: string,
+    to: string,
+    workspaceRoot: string
+  ): Promise<ChangedFile[]> {
+    const output = await this.exec(
+      ['diff', '--name-status', '-M', '-z', from, to],
+      workspaceRoot
+    );
+    const fields = output.split('\0');
+    const files: ChangedFile[] = [];
+
+    for (let i = 0; i < fields.length - 1; ) {
+      const status = fields[i++];
+      if (/^[RC]/.test(status)) {
+        const oldPath = fields[i++];
+        const newPath = fields[i++];
+        files.push({ status: status[0], path: newPath, oldPath });
+      } else {
+        const filePath = fields[i++];
+        files.push({ status: status[0], path: filePath, oldPath: filePath });
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Commits that changed a file, newest first and following renames. Commits
+   * that deleted it are left out, as there is no version to read from them.
+   */
+  static async getFileHistory(
+    filePath: string,
+    workspaceRoot: string
+  ): Promise<GitCommitInfo[]> {
+    try {
+      const relativePath = this.toGitPath(filePath, workspaceRoot);
+      const output = await this.exec(
+        [
+          'log',
+          '--follow',
+          '--diff-filter=d',
+          '--name-only',
+          '--format=%x1e%H%x1f%h%x1f%an%x1f%aI%x1f%s',
+          '--',
+          relativePath,
+        ],
+        workspaceRoot
+      );
+
+      return output
+        .split('\x1e')
+        .filter((record) => record.trim())
+        .map((record) => {
+          const [header, ...files] = record.trim().split('\n');
+          const [hash, shortHash, author, date, subject] = header.split('\x1f');
+          return {
+            hash,
+            shortHash,
+            author,
+            date,
+            subject,
+            filePath: files.find((file) => file.trim()) || relativePath,
+          };
+        });
+    } catch (error) {
+      console.error(`Cannot get history of file '${filePath}':`, error);
+      return [];
+    }
+  }
+
+  private static toGitPath(filePath: string, workspaceRoot: string): string {
+    return path.relative(workspaceRoot, filePath).replace(/\\/g, '/');
+  }
+
+  private static async exec(args: string[], cwd: string): Promise<string> {
+    return (await this.run(args, cwd)).toString('utf8');
+  }
+
+  /**
+   * Runs git without a shell, streaming `input` to stdin and collecting
+   * stdout. Rejects with git's error output when it exits unsuccessfully.
+   */
+  private static run(
+    args: string[],
+    cwd: string,
+    input?: Buffer
+  ): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const child = spawn('git', args, { cwd });
+      const output: Buffer[] = [];
+      const errors: Buffer[] = [];
+
+      child.stdout.on('data', (chunk: Buffer) => output.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => errors.push(chunk));
+      // git may exit before reading all of its input.
+      child.stdin.on('error', () => undefined);
+      child.on('error', reject);
+      child.on('close', (code) => {
+        if (code === 0) {
+          resolve(Buffer.concat(output));
+        } else {
+          const message = Buffer.concat(errors).toString('utf8').trim();
+          reject(
+            new Error(
+              `git ${args[0]} exited with code ${code}${
+                message ? `: ${message}` : ''
+              }`
+            )
+          );
+        }
+      });
+      child.stdin.end(input);
+    });
+  }
+}
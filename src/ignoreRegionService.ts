@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Rect } from './diffEngine';
+
+export interface IgnoreRegion extends Rect {
+  /** Glob of `.imagediff.json` the region is saved under. */
+  pattern: string;
+}
+
+/**
+ * Reads and writes the ignore regions shared through `.imagediff.json`, so
+ * that the extension, batch diffs and the CLI leave the same areas out. The
+ * file sits at the root of the repository and maps globs of paths relative
+ * to it to rectangles:
+ *
+ *     { "ignoreRegions": { "screenshots/*.png": [{ "x": 0, "y": 0, ... }] } }
+ */
+export class IgnoreRegionService {
+  static readonly FILE_NAME = '.imagediff.json';
+
+  /** Regions of every glob that matches a file, in the order of the file. */
+  static getRegions(root: string, filePath: string): IgnoreRegion[] {
+    const relativePath = this.getRelativePath(root, filePath);
+    const config = this.read(root);
+
+    return Object.entries(config.ignoreRegions || {})
+      .filter(
+        ([pattern]) =>
+          pattern === relativePath || this.matches(pattern, relativePath)
+      )
+      .flatMap(([pattern, regions]) =>
+        this.validate(regions).map((region) => ({ ...region, pattern }))
+      );
+  }
+
+  /**
+   * Replaces the regions saved under a file's own path, leaving globs shared
+   * with other files alone, and returns the regions that now apply to it.
+   */
+  static saveRegions(
+    root: string,
+    filePath: string,
+    regions: Rect[]
+  ): IgnoreRegion[] {
+    const pattern = this.getPattern(root, filePath);
+    const config = this.read(root);
+    const ignoreRegions = { ...config.ignoreRegions };
+
+    if (regions.length) {
+      ignoreRegions[pattern] = regions.map(({ x, y, width, height }) => ({
+        x: Math.round(x),
+        y: Math.round(y),
+        width: Math.round(width),
+        height: Math.round(height),
+      }));
+    } else {
+      delete ignoreRegions[pattern];
+    }
+
+    fs.writeFileSync(
+      path.join(root, this.FILE_NAME),
+      `${JSON.stringify({ ...config, ignoreRegions }, null, 2)}\n`
+    );
+    return this.getRegions(root, filePath);
+  }
+
+  /**
+   * Key a file's own regions are saved under: its relative path, with glob
+   * characters escaped so that it matches only that file.
+   */
+  static getPattern(root: string, filePath: string): string {
+    return this.getRelativePath(root, filePath).replace(
+      /[*?{},[\]\\]/g,
+      '\\$&'
+    );
+  }
+
+  /** Path of a file relative to the root, with forward slashes. */
+  static getRelativePath(root: string, filePath: string): string {
+    return path.relative(root, filePath).split(path.sep).join('/');
+  }
+
+  private static read(root: string): {
+    ignoreRegions?: Record<string, unknown>;
+  } {
+    const filePath = path.join(root, this.FILE_NAME);
+    if (!fs.existsSync(filePath)) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Cannot read ${filePath}: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  }
+
+  /** Drops entries that are not rectangles, such as hand-edited typos. */
+  private static validate(regions: unknown): Rect[] {
+    return (Array.isArray(regions) ? regions : [])
+      .filter(
+        (region): region is Rect =>
+          !!region &&
+          ['x', 'y', 'width', 'height'].every((key) =>
+            Number.isFinite((region as Record<string, unknown>)[key])
+          )
+      )
+      .map(({ x, y, width, height }) => ({ x, y, width, height }));
+  }
+
+  /**
+   * Matches a glob as in VS Code settings: `*` and `?` stay within a path
+   * segment, `**` spans any number of them, `{a,b}` matches either and a
+   * backslash matches the next character literally.
+   */
+  private static matches(pattern: string, relativePath: string): boolean {
+    let source = '';
+    let braces = 0;
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+      if (char === '\\' && i + 1 < pattern.length) {
+        source += pattern[++i].replace(/[.*+?^$(){}|[\]\\]/g, '\\$&');
+      } else if (pattern.startsWith('**/', i)) {
+        source += '(?:.*/)?';
+        i += 2;
+      } else if (pattern.startsWith('**', i)) {
+        source += '.*';
+        i += 1;
+      } else if (char === '*') {
+        source += '[^/]*';
+      } else if (char === '?') {
+        source += '[^/]';
+      } else if (char === '{') {
+        source += '(?:';
+        braces++;
+      } else if (char === '}' && braces) {
+        source += ')';
+        braces--;
+      } else if (char === ',' && braces) {
+        source += '|';
+      } else {
+        source += char.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+      }
+    }
+    // An unclosed brace would not compile; such a key only matches exactly.
+    return !braces && new RegExp(`^${source}$`).test(relativePath);
+  }
+}
@@ -0,0 +1,548 @@
+import * as path from 'path';
+import * as bmp from 'bmp-js';
+import * as jpeg from 'jpeg-js';
+import { GifReader } from 'omggif';
+import { PNG } from 'pngjs';
+import * as UPNG from 'upng-js';
+import * as webp from 'webp-wasm';
+
+export type ImageFormat = 'png' | 'jpeg' | 'gif' | 'bmp' | 'webp';
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  /** Pixel data in RGBA order, 4 bytes per pixel. */
+  data: Buffer;
+}
+
+export interface DecodedFrame extends DecodedImage {
+  /** Display duration of the frame in milliseconds. */
+  delay: number;
+}
+
+export interface DecodedAnimation {
+  width: number;
+  height: number;
+  /** Fully composited frames, each covering the whole canvas. */
+  frames: DecodedFrame[];
+}
+
+/** Properties of an image read from its header, without decoding it. */
+export interface ImageInfo {
+  format: ImageFormat;
+  width: number;
+  height: number;
+  /** Such as RGB, RGBA, Grayscale, Indexed or CMYK. */
+  colorType: string;
+  /** Bits per channel, or per palette index for indexed images. */
+  bitDepth: number;
+}
+
+interface WebpChunk {
+  type: string;
+  data: Buffer;
+}
+
+const EXTENSION_FORMATS: Record<string, ImageFormat> = {
+  png: 'png',
+  jpg: 'jpeg',
+  jpeg: 'jpeg',
+  gif: 'gif',
+  bmp: 'bmp',
+  webp: 'webp',
+};
+
+export class ImageDecoder {
+  /**
+   * Detects the image format from the file signature, falling back to the
+   * file extension when the signature is not recognized.
+   */
+  static detectFormat(data: Buffer, filePath?: string): ImageFormat | null {
+    if (
+      data.length >= 8 &&
+      data.readUInt32BE(0) === 0x89504e47 &&
+      data.readUInt32BE(4) === 0x0d0a1a0a
+    ) {
+      return 'png';
+    }
+    if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8) {
+      return 'jpeg';
+    }
+    if (data.length >= 6 && /^GIF8[79]a$/.test(data.toString('ascii', 0, 6))) {
+      return 'gif';
+    }
+    if (data.length >= 2 && data.toString('ascii', 0, 2) === 'BM') {
+      return 'bmp';
+    }
+    if (
+      data.length >= 12 &&
+      data.toString('ascii', 0, 4) === 'RIFF' &&
+      data.toString('ascii', 8, 12) === 'WEBP'
+    ) {
+      return 'webp';
+    }
+
+    if (filePath) {
+      const ext = path.extname(filePath).slice(1).toLowerCase();
+      return EXTENSION_FORMATS[ext] || null;
+    }
+    return null;
+  }
+
+  /**
+   * Reads the dimensions, color type and bit depth from the image header.
+   * Returns null when the header cannot be parsed.
+   */
+  static readInfo(data: Buffer, filePath?: string): ImageInfo | null {
+    const format = this.detectFormat(data, filePath);
+    try {
+      switch (format) {
+        case 'png':
+          return this.readPngInfo(data);
+        case 'jpeg':
+          return this.readJpegInfo(data);
+        case 'gif':
+          return this.readGifInfo(data);
+        case 'bmp':
+          return this.readBmpInfo(data);
+        case 'webp':
+          return this.readWebpInfo(data);
+        default:
+          return null;
+      }
+    } catch (error) {
+      // Truncated headers read past the end of the buffer.
+      return null;
+    }
+  }
+
+  static getMimeType(data: Buffer, filePath: string): string {
+    const format = this.detectFormat(data, filePath);
+    return `image/${format || path.extname(filePath).slice(1)}`;
+  }
+
+  /**
+   * Decodes an image into an RGBA buffer. Animated GIFs are decoded to their
+   * first frame.
+   */
+  static async decode(data: Buffer, filePath?: string): Promise<DecodedImage> {
+    const format = this.detectFormat(data, filePath);
+
+    switch (format) {
+      case 'png':
+        return this.decodePng(data);
+      case 'jpeg':
+        return this.decodeJpeg(data);
+      case 'gif':
+        return this.decodeGif(data);
+      case 'bmp':
+        return this.decodeBmp(data);
+      case 'webp':
+        return this.decodeWebp(data);
+      default:
+        throw new Error(
+          `Unsupported image format${filePath ? `: ${filePath}` : ''}`
+        );
+    }
+  }
+
+  /**
+   * Decodes every frame of an animated GIF, APNG or WebP image. Still images
+   * are returned as a single frame.
+   */
+  static async decodeFrames(
+    data: Buffer,
+    filePath?: string
+  ): Promise<DecodedAnimation> {
+    const format = this.detectFormat(data, filePath);
+
+    if (format === 'gif') {
+      return this.decodeGifFrames(data);
+    }
+    if (format === 'png') {
+      return this.decodeApngFrames(data);
+    }
+    if (format === 'webp') {
+      const animation = await this.decodeWebpFrames(data);
+      if (animation) return animation;
+    }
+
+    const image = await this.decode(data, filePath);
+    return {
+      width: image.width,
+      height: image.height,
+      frames: [{ ...image, delay: 0 }],
+    };
+  }
+
+  private static readPngInfo(data: Buffer): ImageInfo {
+    const colorTypes: Record<number, string> = {
+      0: 'Grayscale',
+      2: 'RGB',
+      3: 'Indexed',
+      4: 'Grayscale + Alpha',
+      6: 'RGBA',
+    };
+    return {
+      format: 'png',
+      width: data.readUInt32BE(16),
+      height: data.readUInt32BE(20),
+      colorType: colorTypes[data[25]] || 'Unknown',
+      bitDepth: data[24],
+    };
+  }
+
+  /** Finds the start of frame segment among the JPEG markers. */
+  private static readJpegInfo(data: Buffer): ImageInfo | null {
+    const colorTypes: Record<number, string> = {
+      1: 'Grayscale',
+      3: 'YCbCr',
+      4: 'CMYK',
+    };
+    let offset = 2;
+
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) return null;
+
+      const marker = data[offset + 1];
+      // SOF0 to SOF15, except DHT, JPG and DAC, which share the range.
+      if (
+        marker >= 0xc0 &&
+        marker <= 0xcf &&
+        ![0xc4, 0xc8, 0xcc].includes(marker)
+      ) {
+        return {
+          format: 'jpeg',
+          width: data.readUInt16BE(offset + 7),
+          height: data.readUInt16BE(offset + 5),
+          colorType: colorTypes[data[offset + 9]] || 'Unknown',
+          bitDepth: data[offset + 4],
+        };
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+    return null;
+  }
+
+  private static readGifInfo(data: Buffer): ImageInfo {
+    return {
+      format: 'gif',
+      width: data.readUInt16LE(6),
+      height: data.readUInt16LE(8),
+      colorType: 'Indexed',
+      bitDepth: (data[10] & 0x07) + 1,
+    };
+  }
+
+  private static readBmpInfo(data: Buffer): ImageInfo {
+    const bitsPerPixel = data.readUInt16LE(28);
+    return {
+      format: 'bmp',
+      width: data.readInt32LE(18),
+      // Negative heights mark images stored top-down.
+      height: Math.abs(data.readInt32LE(22)),
+      colorType:
+        bitsPerPixel <= 8 ? 'Indexed' : bitsPerPixel === 32 ? 'RGBA' : 'RGB',
+      bitDepth: bitsPerPixel <= 8 ? bitsPerPixel : bitsPerPixel === 16 ? 5 : 8,
+    };
+  }
+
+  private static readWebpInfo(data: Buffer): ImageInfo | null {
+    const chunks = this.readWebpChunks(data);
+    const info = (width: number, height: number, alpha: boolean) => ({
+      format: 'webp' as const,
+      width,
+      height,
+      colorType: alpha ? 'RGBA' : 'RGB',
+      bitDepth: 8,
+    });
+
+    for (const { type, data: chunk } of chunks) {
+      if (type === 'VP8X') {
+        return info(
+          chunk.readUIntLE(4, 3) + 1,
+          chunk.readUIntLE(7, 3) + 1,
+          !!(chunk[0] & 0x10)
+        );
+      }
+      if (type === 'VP8L') {
+        const bits = chunk.readUInt32LE(1);
+        return info(
+          (bits & 0x3fff) + 1,
+          ((bits >> 14) & 0x3fff) + 1,
+          !!((bits >> 28) & 1)
+        );
+      }
+      if (type === 'VP8 ') {
+        return info(
+          chunk.readUInt16LE(6) & 0x3fff,
+          chunk.readUInt16LE(8) & 0x3fff,
+          false
+        );
+      }
+    }
+    return null;
+  }
+
+  private static decodePng(data: Buffer): DecodedImage {
+    const png = PNG.sync.read(data);
+    return { width: png.width, height: png.height, data: png.data };
+  }
+
+  private static decodeJpeg(data: Buffer): DecodedImage {
+    const image = jpeg.decode(data, {
+      formatAsRGBA: true,
+      tolerantDecoding: true,
+      maxMemoryUsageInMB: 1024,
+    });
+    return { width: image.width, height: image.height, data: image.data };
+  }
+
+  private static decodeGif(data: Buffer): DecodedImage {
+    const reader = new GifReader(data);
+    const pixels = Buffer.alloc(reader.width * reader.height * 4);
+    reader.decodeAndBlitFrameRGBA(0, pixels);
+    return { width: reader.width, height: reader.height, data: pixels };
+  }
+
+  private static decodeGifFrames(data: Buffer): DecodedAnimation {
+    const reader = new GifReader(data);
+    const { width, height } = reader;
+    const canvas = Buffer.alloc(width * height * 4);
+    const frames: DecodedFrame[] = [];
+
+    for (let i = 0; i < reader.numFrames(); i++) {
+      const info = reader.frameInfo(i);
+      const saved = info.disposal === 3 ? Buffer.from(canvas) : null;
+
+      reader.decodeAndBlitFrameRGBA(i, canvas);
+      frames.push({
+        width,
+        height,
+        data: Buffer.from(canvas),
+        delay: info.delay * 10,
+      });
+
+      if (info.disposal === 2) {
+        this.clearRect(canvas, width, height, info);
+      } else if (saved) {
+        saved.copy(canvas);
+      }
+    }
+
+    return { width, height, frames };
+  }
+
+  private static decodeApngFrames(data: Buffer): DecodedAnimation {
+    const image = UPNG.decode(
+      data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)
+    );
+    const frames = UPNG.toRGBA8(image).map((frame, i) => ({
+      width: image.width,
+      height: image.height,
+      data: Buffer.from(frame),
+      delay: image.frames[i]?.delay || 0,
+    }));
+
+    return { width: image.width, height: image.height, frames };
+  }
+
+  /**
+   * Decodes an animated WebP by rebuilding each ANMF frame as a standalone
+   * WebP file and compositing it onto the canvas. Returns null for still
+   * images.
+   */
+  private static async decodeWebpFrames(
+    data: Buffer
+  ): Promise<DecodedAnimation | null> {
+    const chunks = this.readWebpChunks(data);
+    const header = chunks.find((chunk) => chunk.type === 'VP8X');
+
+    if (!header || !(header.data[0] & 0x02)) {
+      return null;
+    }
+
+    const width = header.data.readUIntLE(4, 3) + 1;
+    const height = header.data.readUIntLE(7, 3) + 1;
+    const canvas = Buffer.alloc(width * height * 4);
+    const frames: DecodedFrame[] = [];
+
+    for (const chunk of chunks) {
+      if (chunk.type !== 'ANMF') continue;
+
+      const rect = {
+        x: chunk.data.readUIntLE(0, 3) * 2,
+        y: chunk.data.readUIntLE(3, 3) * 2,
+        width: chunk.data.readUIntLE(6, 3) + 1,
+        height: chunk.data.readUIntLE(9, 3) + 1,
+      };
+      const delay = chunk.data.readUIntLE(12, 3);
+      const flags = chunk.data[15];
+      const frameData = chunk.data.subarray(16);
+
+      const frame = await this.decodeWebp(
+        this.buildWebpFile(frameData, rect.width, rect.height)
+      );
+      this.drawFrame(canvas, width, height, frame, rect, !(flags & 0x02));
+      frames.push({ width, height, data: Buffer.from(canvas), delay });
+
+      if (flags & 0x01) {
+        this.clearRect(canvas, width, height, rect);
+      }
+    }
+
+    return { width, height, frames };
+  }
+
+  private static readWebpChunks(data: Buffer): WebpChunk[] {
+    const chunks: WebpChunk[] = [];
+    let offset = 12;
+
+    while (offset + 8 <= data.length) {
+      const type = data.toString('ascii', offset, offset + 4);
+      const size = data.readUInt32LE(offset + 4);
+      chunks.push({
+        type,
+        data: data.subarray(offset + 8, offset + 8 + size),
+      });
+      offset += 8 + size + (size % 2);
+    }
+
+    return chunks;
+  }
+
+  private static buildWebpFile(
+    frameData: Buffer,
+    width: number,
+    height: number
+  ): Buffer {
+    const parts: Buffer[] = [];
+
+    // Frames carrying a separate ALPH chunk are only valid inside an
+    // extended (VP8X) container.
+    if (frameData.toString('ascii', 0, 4) === 'ALPH') {
+      const header = Buffer.alloc(18);
+      header.write('VP8X', 0, 'ascii');
+      header.writeUInt32LE(10, 4);
+      header[8] = 0x10;
+      header.writeUIntLE(width - 1, 12, 3);
+      header.writeUIntLE(height - 1, 15, 3);
+      parts.push(header);
+    }
+    parts.push(frameData);
+
+    const body = Buffer.concat(parts);
+    const riff = Buffer.alloc(12);
+    riff.write('RIFF', 0, 'ascii');
+    riff.writeUInt32LE(body.length + 4, 4);
+    riff.write('WEBP', 8, 'ascii');
+    return Buffer.concat([riff, body]);
+  }
+
+  private static drawFrame(
+    canvas: Buffer,
+    canvasWidth: number,
+    canvasHeight: number,
+    frame: DecodedImage,
+    rect: { x: number; y: number },
+    blend: boolean
+  ) {
+    for (let y = 0; y < frame.height; y++) {
+      const cy = rect.y + y;
+      if (cy >= canvasHeight) break;
+
+      for (let x = 0; x < frame.width; x++) {
+        const cx = rect.x + x;
+        if (cx >= canvasWidth) break;
+
+        const src = (y * frame.width + x) * 4;
+        const dst = (cy * canvasWidth + cx) * 4;
+        const srcAlpha = frame.data[src + 3] / 255;
+
+        if (!blend || srcAlpha === 1) {
+          frame.data.copy(canvas, dst, src, src + 4);
+          continue;
+        }
+
+        const dstAlpha = canvas[dst + 3] / 255;
+        const outAlpha = srcAlpha + dstAlpha * (1 - srcAlpha);
+        for (let c = 0; c < 3; c++) {
+          canvas[dst + c] = outAlpha
+            ? Math.round(
+                (frame.data[src + c] * srcAlpha +
+                  canvas[dst + c] * dstAlpha * (1 - srcAlpha)) /
+                  outAlpha
+              )
+            : 0;
+        }
+        canvas[dst + 3] = Math.round(outAlpha * 255);
+      }
+    }
+  }
+
+  private static clearRect(
+    canvas: Buffer,
+    canvasWidth: number,
+    canvasHeight: number,
+    rect: { x: number; y: number; width: number; height: number }
+  ) {
+    const right = Math.min(rect.x + rect.width, canvasWidth);
+    const bottom = Math.min(rect.y + rect.height, canvasHeight);
+    if (right <= rect.x) return;
+
+    for (let y = rect.y; y < bottom; y++) {
+      canvas.fill(
+        0,
+        (y * canvasWidth + rect.x) * 4,
+        (y * canvasWidth + right) * 4
+      );
+    }
+  }
+
+  private static decodeBmp(data: Buffer): DecodedImage {
+    const image = bmp.decode(data);
+    const abgr = image.getData();
+    const rgba = Buffer.alloc(image.width * image.height * 4);
+
+    // bmp-js only fills the alpha byte for 32-bit images, and many writers
+    // leave it zeroed, so treat an all-transparent result as opaque.
+    let hasAlpha = false;
+    if (image.bitPP === 32) {
+      for (let i = 0; i < abgr.length; i += 4) {
+        if (abgr[i] !== 0) {
+          hasAlpha = true;
+          break;
+        }
+      }
+    }
+
+    for (let i = 0; i < rgba.length; i += 4) {
+      rgba[i] = abgr[i + 3];
+      rgba[i + 1] = abgr[i + 2];
+      rgba[i + 2] = abgr[i + 1];
+      rgba[i + 3] = hasAlpha ? abgr[i] : 255;
+    }
+
+    return { width: image.width, height: image.height, data: rgba };
+  }
+
+  private static async decodeWebp(data: Buffer): Promise<DecodedImage> {
+    // The decoder reads `buffer.buffer` when present, which for pooled Node
+    // buffers is larger than the image, so hand it an exact copy.
+    const image = await webp.decode(
+      data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)
+    );
+    if (!image) {
+      throw new Error('Failed to decode WebP image');
+    }
+    return {
+      width: image.width,
+      height: image.height,
+      data: Buffer.from(
+        image.data.buffer,
+        image.data.byteOffset,
+        image.data.byteLength
+      ),
+    };
+  }
+}
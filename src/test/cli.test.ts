@@ -0,0 +1,123 @@
+import * as assert from 'assert/strict';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { PNG } from 'pngjs';
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'image-diff-cli-'));
+process.on('exit', () => fs.rmSync(root, { recursive: true, force: true }));
+
+function writeImage(name: string, color: [number, number, number]) {
+  const png = new PNG({ width: 4, height: 4 });
+  for (let i = 0; i < png.data.length; i += 4) {
+    png.data.set([...color, 255], i);
+  }
+  fs.writeFileSync(path.join(root, name), PNG.sync.write(png));
+}
+
+writeImage('red.png', [255, 0, 0]);
+writeImage('red-copy.png', [255, 0, 0]);
+writeImage('blue.png', [0, 0, 255]);
+
+const run = (...args: string[]) =>
+  spawnSync(process.execPath, [path.join(__dirname, '..', 'cli.js'), ...args], {
+    cwd: root,
+    encoding: 'utf8',
+  });
+
+describe('image-pixel-diff', () => {
+  it('exits with 0 for images within the budget', () => {
+    const same = run('compare', 'red.png', 'red-copy.png');
+    assert.equal(same.status, 0);
+    assert.match(
+      same.stdout,
+      /^ok {2}red\.png → red-copy\.png: no pixel differences$/m
+    );
+
+    const allowed = run('compare', 'red.png', 'blue.png', '--budget', '100');
+    assert.equal(allowed.status, 0);
+    assert.match(allowed.stdout, /16 px changed \(100\.00%\)/);
+  });
+
+  it('exits with 1 for images over the budget', () => {
+    const result = run('compare', 'red.png', 'blue.png');
+    assert.equal(result.status, 1);
+    assert.match(
+      result.stdout,
+      /^FAIL {2}red\.png → blue\.png: 16 px changed/m
+    );
+  });
+
+  it('prints the results and options as JSON', () => {
+    const result = run(
+      'compare',
+      'red.png',
+      'blue.png',
+      '--json',
+      '--threshold=0.5',
+      '--include-aa'
+    );
+    const output = JSON.parse(result.stdout);
+
+    assert.equal(result.status, 1);
+    assert.equal(output.options.threshold, 0.5);
+    assert.equal(output.options.includeAA, true);
+    assert.equal(output.results[0].mismatch, 16);
+    assert.equal(output.results[0].overBudget, true);
+  });
+
+  it('reads options from a settings file with comments', () => {
+    fs.writeFileSync(
+      path.join(root, 'settings.json'),
+      `{
+        // Allow any change.
+        "imageDiff.mismatchBudget": 100,
+        "imageDiff.diffColor": "#00ff00",
+      }`
+    );
+    const result = run(
+      'compare',
+      'red.png',
+      'blue.png',
+      '--json',
+      '--config',
+      'settings.json'
+    );
+    const output = JSON.parse(result.stdout);
+
+    assert.equal(result.status, 0);
+    assert.equal(output.budget, 100);
+    assert.equal(output.options.diffColor, '#00ff00');
+  });
+
+  it('exits with 2 and the usage for invalid arguments', () => {
+    const invalid = [
+      [
+        ['--threshold', '5'],
+        'Invalid value for --threshold: 5, expected 0 to 1',
+      ],
+      [['--alpha', 'opaque'], 'Invalid value for --alpha: opaque'],
+      [['--budget', '-1'], 'Invalid value for --budget: -1, expected 0 to 100'],
+      [['--alignment', 'diagonal'], 'Invalid value for --alignment: diagonal'],
+      [['--diff-color', 'red'], 'Invalid value for --diff-color: red'],
+      [['--out'], 'Missing value for --out'],
+    ];
+    for (const [args, message] of invalid) {
+      const result = run('compare', 'red.png', 'blue.png', ...args);
+      assert.equal(result.status, 2, message as string);
+      assert.ok(result.stderr.includes(message as string), result.stderr);
+      assert.match(result.stderr, /^Usage:/m);
+    }
+  });
+
+  it('exits with 2 for a missing command and 0 for --help', () => {
+    assert.equal(run().status, 2);
+    assert.equal(run('compare', 'red.png').status, 2);
+
+    const help = run('--help');
+    assert.equal(help.status, 0);
+    assert.match(help.stdout, /^Exit codes: 0 within budget/m);
+  });
+});
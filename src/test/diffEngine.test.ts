@@ -0,0 +1,157 @@
+import * as assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+import { DEFAULT_DIFF_OPTIONS, DiffImageGenerator, Rect } from '../diffEngine';
+
+/** Deterministic pseudo-random bytes, so failures can be reproduced. */
+function random(seed: number) {
+  return () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed % 256;
+  };
+}
+
+function createImage(
+  width: number,
+  height: number,
+  pixel: (x: number, y: number) => [number, number, number, number]
+): PNG {
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      png.data.set(pixel(x, y), (y * width + x) * 4);
+    }
+  }
+  return png;
+}
+
+const encode = (png: PNG) => PNG.sync.write(png);
+
+const decodeDataUrl = (dataUrl: string) =>
+  PNG.sync.read(Buffer.from(dataUrl.split(',')[1], 'base64'));
+
+describe('DiffImageGenerator.generate', () => {
+  it('diffs tile by tile exactly like a diff of the whole image', async () => {
+    // Tall enough for three tiles, with a soft diagonal edge, noise and
+    // semi-transparent changes across the tile boundaries.
+    const [width, height] = [48, 600];
+    const next = random(7);
+    const previous = createImage(width, height, (x, y) => {
+      const edge = Math.max(0, Math.min(255, (x - y / 12) * 64));
+      return [edge, edge, edge, y % 7 ? 255 : 128];
+    });
+    const current = createImage(width, height, (x, y) => {
+      const pos = (y * width + x) * 4;
+      const pixel = [...previous.data.subarray(pos, pos + 4)] as [
+        number,
+        number,
+        number,
+        number
+      ];
+      const nearBoundary = [254, 255, 256, 257, 511, 512, 513].includes(y);
+      if (nearBoundary || next() < 8) {
+        pixel[0] = next();
+        pixel[3] = next() < 128 ? 255 : next();
+      }
+      return pixel;
+    });
+
+    const options = { ...DEFAULT_DIFF_OPTIONS, alignment: 'top-left' as const };
+    const result = await DiffImageGenerator.generate(
+      encode(current),
+      encode(previous),
+      options
+    );
+    assert.ok(result);
+
+    const expected = Buffer.alloc(width * height * 4);
+    const mismatch = pixelmatch(
+      current.data,
+      previous.data,
+      expected,
+      width,
+      height,
+      {
+        threshold: options.threshold,
+        includeAA: options.includeAA,
+        alpha: options.alpha,
+        aaColor: [255, 255, 0],
+        diffColor: [255, 0, 0],
+        checkerboard: false,
+      }
+    );
+
+    assert.ok(mismatch > 0);
+    assert.equal(result.mismatch, mismatch);
+    assert.ok(decodeDataUrl(result.diffImage).data.equals(expected));
+  });
+});
+
+describe('DiffImageGenerator metrics', () => {
+  const gradient = (x: number, y: number) => (x * 5 + y * 3) % 200;
+  const previous = createImage(32, 32, (x, y) => {
+    const value = gradient(x, y);
+    return [value, value, value, 255];
+  });
+  const metricsOf = async (current: PNG, ignoreRegions: Rect[] = []) => {
+    const result = await DiffImageGenerator.generate(
+      encode(current),
+      encode(previous),
+      { ...DEFAULT_DIFF_OPTIONS, ignoreRegions }
+    );
+    assert.ok(result);
+    return result;
+  };
+
+  it('reports identical images as fully similar', async () => {
+    const result = await metricsOf(previous);
+
+    assert.deepEqual(result.metrics, {
+      ssim: 1,
+      psnr: null,
+      mae: [0, 0, 0, 0],
+      hashDistance: 0,
+    });
+    assert.ok(decodeDataUrl(result.ssimImage).data.every((byte) => !byte));
+  });
+
+  it('measures a change of brightness but keeps the hash', async () => {
+    const current = createImage(32, 32, (x, y) => {
+      const value = gradient(x, y) + 10;
+      return [value, value, value, 255];
+    });
+    const { metrics } = await metricsOf(current);
+
+    assert.ok(metrics.ssim < 1);
+    assert.ok(metrics.psnr);
+    assert.equal(metrics.psnr.toFixed(2), '28.13');
+    assert.deepEqual(metrics.mae, [10, 10, 10, 0]);
+    assert.equal(metrics.hashDistance, 0);
+  });
+
+  it('tells a different picture apart', async () => {
+    const current = createImage(32, 32, (x, y) => {
+      const value = gradient(31 - y, x);
+      return [value, value, value, 255];
+    });
+    const { metrics } = await metricsOf(current);
+
+    assert.ok(metrics.ssim < 0.5);
+    assert.ok(metrics.hashDistance > 10);
+  });
+
+  it('leaves ignored areas out of the metrics', async () => {
+    const current = createImage(32, 32, (x, y) => {
+      const value = x < 8 && y < 8 ? 0 : gradient(x, y);
+      return [value, value, value, 255];
+    });
+    const { metrics } = await metricsOf(current, [
+      { x: 0, y: 0, width: 8, height: 8 },
+    ]);
+
+    assert.equal(metrics.ssim, 1);
+    assert.equal(metrics.psnr, null);
+    assert.deepEqual(metrics.mae, [0, 0, 0, 0]);
+  });
+});
@@ -0,0 +1,96 @@
+import * as assert from 'assert/strict';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { GitBlobError, GitService } from '../gitService';
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'image-diff-git-'));
+process.on('exit', () => fs.rmSync(root, { recursive: true, force: true }));
+
+const git = (...args: string[]) =>
+  execFileSync('git', args, { cwd: root, encoding: 'utf8' }).trim();
+
+git('init', '-q');
+git('config', 'user.email', 'test@example.com');
+git('config', 'user.name', 'Test');
+fs.writeFileSync(path.join(root, 'a.png'), 'first');
+git('add', 'a.png');
+git('commit', '-q', '-m', 'Add a.png');
+fs.writeFileSync(path.join(root, 'a.png'), 'second');
+git('commit', '-q', '-am', 'Change a.png');
+// A branch off the first commit, made without touching the work tree.
+git(
+  'branch',
+  'side',
+  git('commit-tree', 'HEAD~1^{tree}', '-p', 'HEAD~1', '-m', 'Branch off')
+);
+
+const read = (file: string, revision: string) =>
+  GitService.readBlob({
+    filePath: path.join(root, file),
+    revision,
+    workspaceRoot: root,
+  });
+
+describe('GitService.readBlob', () => {
+  it('reads a file as of a revision', async () => {
+    assert.equal((await read('a.png', 'HEAD~1')).toString(), 'first');
+    assert.equal((await read('a.png', 'HEAD')).toString(), 'second');
+    assert.equal((await read('a.png', '')).toString(), 'second');
+  });
+
+  it('reports a path missing from the revision as missing', async () => {
+    for (const revision of ['HEAD', '', ':3']) {
+      await assert.rejects(
+        read('b.png', revision),
+        (error) => error instanceof GitBlobError && error.reason === 'missing'
+      );
+    }
+    await assert.rejects(
+      read('a.png', ':3'),
+      (error) => error instanceof GitBlobError && error.reason === 'missing'
+    );
+  });
+
+  it("keeps git's message for an unknown revision", async () => {
+    await assert.rejects(
+      read('a.png', 'no-such-branch'),
+      (error) =>
+        !(error instanceof GitBlobError) &&
+        error instanceof Error &&
+        /invalid object name 'no-such-branch'/.test(error.message)
+    );
+  });
+});
+
+describe('GitService.resolveRange', () => {
+  const resolve = (range: string) => GitService.resolveRange(range, root);
+
+  it('compares the two ends of a..b', async () => {
+    assert.deepEqual(await resolve('side..HEAD'), { from: 'side', to: 'HEAD' });
+    assert.deepEqual(await resolve('side..'), { from: 'side', to: 'HEAD' });
+  });
+
+  it('compares the end of a...b with the merge base', async () => {
+    assert.deepEqual(await resolve('side...HEAD'), {
+      from: git('rev-parse', 'HEAD~1'),
+      to: 'HEAD',
+    });
+  });
+
+  it('compares a single commit with its parent', async () => {
+    assert.deepEqual(await resolve('HEAD'), {
+      from: git('rev-parse', 'HEAD~1'),
+      to: 'HEAD',
+    });
+  });
+
+  it('compares a root commit with the empty tree', async () => {
+    assert.deepEqual(await resolve('HEAD~1'), {
+      from: git('hash-object', '-t', 'tree', '/dev/null'),
+      to: 'HEAD~1',
+    });
+  });
+});
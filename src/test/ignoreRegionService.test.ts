@@ -0,0 +1,145 @@
+import * as assert from 'assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { IgnoreRegionService } from '../ignoreRegionService';
+
+const base = fs.mkdtempSync(path.join(os.tmpdir(), 'image-diff-regions-'));
+process.on('exit', () => fs.rmSync(base, { recursive: true, force: true }));
+
+let roots = 0;
+
+/** A fresh root with the given `.imagediff.json`, if any. */
+function createRoot(config?: unknown): string {
+  const root = path.join(base, `${roots++}`);
+  fs.mkdirSync(root);
+  if (config !== undefined) {
+    fs.writeFileSync(
+      path.join(root, IgnoreRegionService.FILE_NAME),
+      typeof config === 'string' ? config : JSON.stringify(config)
+    );
+  }
+  return root;
+}
+
+const region = { x: 1, y: 2, width: 3, height: 4 };
+
+/** Whether a glob applies to a file, through the regions saved under it. */
+function matches(pattern: string, relativePath: string): boolean {
+  const root = createRoot({ ignoreRegions: { [pattern]: [region] } });
+  const regions = IgnoreRegionService.getRegions(
+    root,
+    path.join(root, relativePath)
+  );
+  return regions.length > 0;
+}
+
+describe('IgnoreRegionService', () => {
+  it('matches globs as in VS Code settings', () => {
+    const cases: [string, string, boolean][] = [
+      ['shots/a.png', 'shots/a.png', true],
+      ['shots/*.png', 'shots/a.png', true],
+      ['shots/*.png', 'shots/ui/a.png', false],
+      ['shots/?.png', 'shots/a.png', true],
+      ['shots/?.png', 'shots/ab.png', false],
+      ['**/*.png', 'a.png', true],
+      ['**/*.png', 'shots/ui/a.png', true],
+      ['shots/**', 'shots/ui/a.png', true],
+      ['*.{png,gif}', 'a.gif', true],
+      ['*.{png,gif}', 'a.jpg', false],
+      ['a.png', 'aXpng', false],
+      ['\\*.png', '*.png', true],
+      ['\\*.png', 'a.png', false],
+      // Unclosed braces do not compile to a pattern and only match exactly.
+      ['{a.png', '{a.png', true],
+      ['{a,b}.png{', 'a.png{', false],
+    ];
+    for (const [pattern, relativePath, expected] of cases) {
+      assert.equal(
+        matches(pattern, relativePath),
+        expected,
+        `${pattern} ${relativePath}`
+      );
+    }
+  });
+
+  it('returns the regions of every matching glob in order', () => {
+    const root = createRoot({
+      ignoreRegions: {
+        '**/*.png': [region],
+        'docs/*.gif': [{ x: 9, y: 9, width: 9, height: 9 }],
+        'docs/a.png': [{ ...region, x: 5 }, { x: 'typo' }, null],
+      },
+    });
+
+    assert.deepEqual(
+      IgnoreRegionService.getRegions(root, path.join(root, 'docs', 'a.png')),
+      [
+        { ...region, pattern: '**/*.png' },
+        { ...region, x: 5, pattern: 'docs/a.png' },
+      ]
+    );
+  });
+
+  it('escapes glob characters in the pattern of a file', () => {
+    const root = createRoot();
+    const filePath = path.join(root, 'shots', 'a[1]{b,c}*?.png');
+
+    assert.equal(
+      IgnoreRegionService.getPattern(root, filePath),
+      'shots/a\\[1\\]\\{b\\,c\\}\\*\\?.png'
+    );
+    assert.equal(
+      matches(
+        IgnoreRegionService.getPattern(root, filePath),
+        'shots/a[1]{b,c}*?.png'
+      ),
+      true
+    );
+    assert.equal(
+      matches(
+        IgnoreRegionService.getPattern(root, filePath),
+        'shots/a[1]b*?.png'
+      ),
+      false
+    );
+  });
+
+  it('saves rounded regions under the file and keeps shared globs', () => {
+    const root = createRoot({
+      other: true,
+      ignoreRegions: { '*.png': [region] },
+    });
+    const filePath = path.join(root, 'a*.png');
+
+    assert.deepEqual(
+      IgnoreRegionService.saveRegions(root, filePath, [
+        { x: 0.4, y: 1.6, width: 10.5, height: 2 },
+      ]),
+      [
+        { ...region, pattern: '*.png' },
+        { x: 0, y: 2, width: 11, height: 2, pattern: 'a\\*.png' },
+      ]
+    );
+    const config = JSON.parse(
+      fs.readFileSync(path.join(root, IgnoreRegionService.FILE_NAME), 'utf8')
+    );
+    assert.equal(config.other, true);
+    assert.deepEqual(Object.keys(config.ignoreRegions), ['*.png', 'a\\*.png']);
+
+    assert.deepEqual(IgnoreRegionService.saveRegions(root, filePath, []), [
+      { ...region, pattern: '*.png' },
+    ]);
+  });
+
+  it('returns no regions without a file and throws for malformed JSON', () => {
+    assert.deepEqual(IgnoreRegionService.getRegions(createRoot(), 'a.png'), []);
+
+    const root = createRoot('{ "ignoreRegions": ');
+    assert.throws(
+      () => IgnoreRegionService.getRegions(root, path.join(root, 'a.png')),
+      /^Error: Cannot read .*\.imagediff\.json: /
+    );
+  });
+});
@@ -0,0 +1,274 @@
+import * as assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { GifWriter } from 'omggif';
+import { PNG } from 'pngjs';
+import * as UPNG from 'upng-js';
+import * as webp from 'webp-wasm';
+import { ImageDecoder } from '../imageDecoder';
+
+type Rgba = [number, number, number, number];
+
+const pixelAt = (
+  image: { width: number; data: Buffer },
+  x: number,
+  y: number
+): Rgba => {
+  const pos = (y * image.width + x) * 4;
+  return [...image.data.subarray(pos, pos + 4)] as Rgba;
+};
+
+/** A bottom-up 32-bit BMP whose pixels are given in RGBA order. */
+function createBmp(width: number, height: number, pixels: Rgba[]): Buffer {
+  const header = Buffer.alloc(54);
+  header.write('BM', 0, 'ascii');
+  header.writeUInt32LE(54 + pixels.length * 4, 2);
+  header.writeUInt32LE(54, 10);
+  header.writeUInt32LE(40, 14);
+  header.writeInt32LE(width, 18);
+  header.writeInt32LE(height, 22);
+  header.writeUInt16LE(1, 26);
+  header.writeUInt16LE(32, 28);
+
+  const rows: Buffer[] = [];
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = 0; x < width; x++) {
+      const [r, g, b, a] = pixels[y * width + x];
+      rows.push(Buffer.from([b, g, r, a]));
+    }
+  }
+  return Buffer.concat([header, ...rows]);
+}
+
+/** A RIFF chunk, padded to an even length. */
+function webpChunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(type, 0, 'ascii');
+  header.writeUInt32LE(data.length, 4);
+  return Buffer.concat([header, data, Buffer.alloc(data.length % 2)]);
+}
+
+interface WebpFrame {
+  x: number;
+  y: number;
+  pixels: Rgba[];
+  width: number;
+  delay: number;
+  blend: boolean;
+  dispose: boolean;
+}
+
+/** An animated WebP built from losslessly encoded frames. */
+async function createAnimatedWebp(
+  width: number,
+  height: number,
+  frames: WebpFrame[]
+): Promise<Buffer> {
+  const header = Buffer.alloc(10);
+  header[0] = 0x12;
+  header.writeUIntLE(width - 1, 4, 3);
+  header.writeUIntLE(height - 1, 7, 3);
+  const chunks = [
+    webpChunk('VP8X', header),
+    webpChunk('ANIM', Buffer.alloc(6)),
+  ];
+
+  for (const frame of frames) {
+    const frameHeight = frame.pixels.length / frame.width;
+    const encoded = await webp.encode(
+      {
+        data: new Uint8ClampedArray(frame.pixels.flat()),
+        width: frame.width,
+        height: frameHeight,
+      },
+      { lossless: 1, exact: 1 }
+    );
+    const info = Buffer.alloc(16);
+    info.writeUIntLE(frame.x / 2, 0, 3);
+    info.writeUIntLE(frame.y / 2, 3, 3);
+    info.writeUIntLE(frame.width - 1, 6, 3);
+    info.writeUIntLE(frameHeight - 1, 9, 3);
+    info.writeUIntLE(frame.delay, 12, 3);
+    info[15] = (frame.blend ? 0 : 0x02) | (frame.dispose ? 0x01 : 0);
+    chunks.push(
+      webpChunk(
+        'ANMF',
+        Buffer.concat([info, Buffer.from(encoded).subarray(12)])
+      )
+    );
+  }
+
+  const body = Buffer.concat(chunks);
+  const riff = Buffer.alloc(12);
+  riff.write('RIFF', 0, 'ascii');
+  riff.writeUInt32LE(body.length + 4, 4);
+  riff.write('WEBP', 8, 'ascii');
+  return Buffer.concat([riff, body]);
+}
+
+const RED: Rgba = [255, 0, 0, 255];
+const GREEN: Rgba = [0, 255, 0, 255];
+const WHITE: Rgba = [255, 255, 255, 255];
+const CLEAR: Rgba = [0, 0, 0, 0];
+
+describe('ImageDecoder.decodeFrames', () => {
+  it('composites GIF frames and applies their disposal', async () => {
+    const data = Buffer.alloc(1024);
+    const writer = new GifWriter(data, 4, 4, {
+      palette: [0x000000, 0xffffff, 0xff0000, 0x00ff00],
+    });
+    writer.addFrame(0, 0, 4, 4, new Array(16).fill(2), { delay: 10 });
+    // Index 0 is transparent and leaves the previous frame showing.
+    writer.addFrame(1, 1, 2, 2, [3, 3, 3, 0], {
+      delay: 20,
+      disposal: 2,
+      transparent: 0,
+    });
+    writer.addFrame(0, 0, 1, 1, [1], { delay: 30 });
+    const animation = await ImageDecoder.decodeFrames(
+      data.subarray(0, writer.end())
+    );
+
+    assert.equal(animation.frames.length, 3);
+    assert.deepEqual(
+      animation.frames.map((frame) => frame.delay),
+      [100, 200, 300]
+    );
+    const [first, second, third] = animation.frames;
+    assert.deepEqual(pixelAt(first, 1, 1), RED);
+    assert.deepEqual(pixelAt(second, 1, 1), GREEN);
+    assert.deepEqual(pixelAt(second, 2, 2), RED);
+    assert.deepEqual(pixelAt(second, 3, 3), RED);
+    assert.deepEqual(pixelAt(third, 0, 0), WHITE);
+    assert.deepEqual(pixelAt(third, 1, 1), CLEAR);
+    assert.deepEqual(pixelAt(third, 2, 2), CLEAR);
+    assert.deepEqual(pixelAt(third, 3, 3), RED);
+  });
+
+  it('returns every APNG frame as a full canvas', async () => {
+    const first = Buffer.alloc(4 * 4 * 4);
+    for (let i = 0; i < first.length; i += 4) first.set(RED, i);
+    // Buffer.from would share Node's buffer pool, which UPNG reads whole.
+    const second = Buffer.alloc(first.length);
+    first.copy(second);
+    second.set(GREEN, (2 * 4 + 3) * 4);
+    // UPNG leaves out the IEND chunk of animations, so close the file here.
+    const data = Buffer.concat([
+      Buffer.from(
+        UPNG.encode([first.buffer, second.buffer], 4, 4, 0, [40, 80])
+      ),
+      Buffer.from('0000000049454e44ae426082', 'hex'),
+    ]);
+    const animation = await ImageDecoder.decodeFrames(data);
+
+    assert.equal(animation.frames.length, 2);
+    assert.deepEqual(
+      animation.frames.map((frame) => frame.delay),
+      [40, 80]
+    );
+    assert.deepEqual(animation.frames[0].data, first);
+    assert.deepEqual(animation.frames[1].data, second);
+  });
+
+  it('composites WebP frames with blending and disposal', async () => {
+    const data = await createAnimatedWebp(4, 4, [
+      {
+        x: 0,
+        y: 0,
+        width: 4,
+        pixels: new Array(16).fill(RED),
+        delay: 50,
+        blend: false,
+        dispose: false,
+      },
+      {
+        x: 2,
+        y: 2,
+        width: 2,
+        pixels: new Array(4).fill([0, 0, 255, 128]),
+        delay: 60,
+        blend: true,
+        dispose: true,
+      },
+      {
+        x: 0,
+        y: 0,
+        width: 1,
+        pixels: [WHITE],
+        delay: 70,
+        blend: false,
+        dispose: false,
+      },
+    ]);
+    const animation = await ImageDecoder.decodeFrames(data);
+
+    assert.equal(animation.width, 4);
+    assert.equal(animation.frames.length, 3);
+    assert.deepEqual(
+      animation.frames.map((frame) => frame.delay),
+      [50, 60, 70]
+    );
+    const [first, second, third] = animation.frames;
+    assert.deepEqual(pixelAt(first, 3, 3), RED);
+    assert.deepEqual(pixelAt(second, 1, 1), RED);
+    assert.deepEqual(pixelAt(second, 3, 3), [127, 0, 128, 255]);
+    assert.deepEqual(pixelAt(third, 0, 0), WHITE);
+    assert.deepEqual(pixelAt(third, 1, 1), RED);
+    assert.deepEqual(pixelAt(third, 3, 3), CLEAR);
+  });
+
+  it('returns still images as a single frame', async () => {
+    const png = new PNG({ width: 1, height: 1 });
+    const animation = await ImageDecoder.decodeFrames(PNG.sync.write(png));
+
+    assert.equal(animation.frames.length, 1);
+    assert.equal(animation.frames[0].delay, 0);
+  });
+});
+
+describe('ImageDecoder.decode', () => {
+  it('decodes PNG to RGBA', async () => {
+    const png = new PNG({ width: 2, height: 1 });
+    png.data.set([255, 0, 0, 255, 0, 0, 255, 128]);
+    const image = await ImageDecoder.decode(PNG.sync.write(png));
+
+    assert.equal(image.width, 2);
+    assert.equal(image.height, 1);
+    assert.deepEqual(pixelAt(image, 0, 0), [255, 0, 0, 255]);
+    assert.deepEqual(pixelAt(image, 1, 0), [0, 0, 255, 128]);
+  });
+
+  it('keeps the alpha channel of 32-bit BMPs', async () => {
+    const image = await ImageDecoder.decode(
+      createBmp(2, 2, [
+        [255, 0, 0, 255],
+        [0, 255, 0, 128],
+        [0, 0, 255, 0],
+        [10, 20, 30, 64],
+      ])
+    );
+
+    assert.deepEqual(pixelAt(image, 0, 0), [255, 0, 0, 255]);
+    assert.deepEqual(pixelAt(image, 1, 0), [0, 255, 0, 128]);
+    assert.deepEqual(pixelAt(image, 0, 1), [0, 0, 255, 0]);
+    assert.deepEqual(pixelAt(image, 1, 1), [10, 20, 30, 64]);
+  });
+
+  it('treats 32-bit BMPs with a zeroed alpha channel as opaque', async () => {
+    const image = await ImageDecoder.decode(
+      createBmp(2, 1, [
+        [255, 0, 0, 0],
+        [0, 255, 0, 0],
+      ])
+    );
+
+    assert.deepEqual(pixelAt(image, 0, 0), [255, 0, 0, 255]);
+    assert.deepEqual(pixelAt(image, 1, 0), [0, 255, 0, 255]);
+  });
+
+  it('falls back to the file extension and rejects unknown formats', async () => {
+    assert.equal(ImageDecoder.detectFormat(Buffer.from('?'), 'a.JPG'), 'jpeg');
+    await assert.rejects(ImageDecoder.decode(Buffer.from('?'), 'a.tiff'), {
+      message: 'Unsupported image format: a.tiff',
+    });
+  });
+});